@@ -0,0 +1,197 @@
+/**
+ * Runs the Anthropic client against a local stand-in answering with canned bodies, to check the message translation,
+ * the server-sent events parser and the conversion of streamed events to OpenAI chunks.
+ *
+ * Run with `bun run scripts/check-anthropic-client.ts`
+ */
+import type OpenAI from "openai";
+
+import { AnthropicChatClient, toAnthropicMessages } from "@client/anthropic-client";
+import type { Message } from "@messages";
+
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { runChecks } from "./run-checks";
+
+const MESSAGES: Message[] = [
+  { role: "system", content: "You are helpful." },
+  {
+    role: "user",
+    content: [
+      { type: "text", text: "What is in a.txt?\n[image shot.png]" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+    ],
+  },
+  { role: "assistant", content: "Let me read it." },
+  {
+    role: "assistant",
+    content: "Let me read it.",
+    tool_calls: [{ id: "toolu_1", type: "function", function: { name: "readFile", arguments: '{"path":"a.txt"}' } }],
+  },
+  { role: "tool", tool_call_id: "toolu_1", content: '{"content":"hello"}' },
+];
+
+const SSE_EVENTS: [string, unknown][] = [
+  [
+    "message_start",
+    {
+      type: "message_start",
+      message: { id: "msg_1", model: "claude-test", usage: { input_tokens: 10, cache_read_input_tokens: 5 } },
+    },
+  ],
+  ["content_block_start", { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }],
+  ["ping", { type: "ping" }],
+  ["content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "It says " } }],
+  ["content_block_delta", { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "hello." } }],
+  ["content_block_stop", { type: "content_block_stop", index: 0 }],
+  [
+    "content_block_start",
+    {
+      type: "content_block_start",
+      index: 1,
+      content_block: { type: "tool_use", id: "toolu_2", name: "writeFile", input: {} },
+    },
+  ],
+  [
+    "content_block_delta",
+    { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"path":' } },
+  ],
+  [
+    "content_block_delta",
+    { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"b.txt"}' } },
+  ],
+  ["content_block_stop", { type: "content_block_stop", index: 1 }],
+  ["message_delta", { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 7 } }],
+  ["message_stop", { type: "message_stop" }],
+];
+
+const COMPLETE_BODY = {
+  id: "msg_2",
+  model: "claude-test",
+  content: [
+    { type: "text", text: "Writing it." },
+    { type: "tool_use", id: "toolu_3", name: "writeFile", input: { path: "c.txt" } },
+  ],
+  stop_reason: "tool_use",
+  usage: { input_tokens: 3, output_tokens: 4 },
+};
+
+interface StandIn {
+  baseURL: string;
+  bodies: any[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Messages API stand-in, streamed answers are written in small pieces cutting through events and lines
+ */
+async function startStandIn(): Promise<StandIn> {
+  const bodies: any[] = [];
+  const server = http.createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    const body = JSON.parse(raw);
+    bodies.push(body);
+
+    if (!body.stream) {
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(COMPLETE_BODY));
+      return;
+    }
+
+    res.writeHead(200, { "content-type": "text/event-stream" });
+    const stream = SSE_EVENTS.map(([event, data]) => toServerSentEvent(event, data)).join("");
+    for (let index = 0; index < stream.length; index += 37) {
+      res.write(stream.slice(index, index + 37));
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+    res.end();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseURL: `http://127.0.0.1:${port}`,
+    bodies,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+function toServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\r\ndata: ${JSON.stringify(data)}\r\n\r\n`;
+}
+
+const checks: [string, (standIn: StandIn) => Promise<void>][] = [
+  [
+    "translates messages to content blocks",
+    async () => {
+      const { system, messages } = toAnthropicMessages(MESSAGES);
+      assert.equal(system, "You are helpful.");
+      assert.deepEqual(messages, [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in a.txt?\n[image shot.png]" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Let me read it." },
+            { type: "tool_use", id: "toolu_1", name: "readFile", input: { path: "a.txt" } },
+          ],
+        },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: '{"content":"hello"}' }] },
+      ]);
+    },
+  ],
+  [
+    "converts streamed events to chunks",
+    async standIn => {
+      const client = new AnthropicChatClient({ apiKey: "test", baseURL: standIn.baseURL });
+      const chunks: OpenAI.Chat.ChatCompletionChunk[] = [];
+      for await (const chunk of client.stream({ model: "claude-test", messages: MESSAGES })) {
+        chunks.push(chunk);
+      }
+
+      const deltas = chunks.map(chunk => chunk.choices[0]?.delta);
+      assert.equal(deltas.map(delta => delta?.content || "").join(""), "It says hello.");
+      const toolDeltas = deltas.flatMap(delta => delta?.tool_calls || []);
+      assert.deepEqual(
+        { id: toolDeltas[0]?.id, name: toolDeltas[0]?.function?.name, index: toolDeltas[0]?.index },
+        { id: "toolu_2", name: "writeFile", index: 0 }
+      );
+      assert.equal(toolDeltas.map(delta => delta.function?.arguments || "").join(""), '{"path":"b.txt"}');
+      assert.ok(chunks.some(chunk => chunk.choices[0]?.finish_reason === "tool_calls"));
+      assert.deepEqual(chunks.at(-1)?.usage, {
+        prompt_tokens: 15,
+        completion_tokens: 7,
+        total_tokens: 22,
+        prompt_tokens_details: { cached_tokens: 5 },
+      });
+      assert.equal(standIn.bodies.at(-1)?.stream, true);
+      assert.equal(standIn.bodies.at(-1)?.system, "You are helpful.");
+    },
+  ],
+  [
+    "converts a complete answer",
+    async standIn => {
+      const client = new AnthropicChatClient({ apiKey: "test", baseURL: standIn.baseURL });
+      const response = await client.complete({ model: "claude-test", messages: MESSAGES });
+      const { message, finish_reason } = response.choices[0]!;
+      assert.equal(message.content, "Writing it.");
+      assert.deepEqual(message.tool_calls, [
+        { id: "toolu_3", type: "function", function: { name: "writeFile", arguments: '{"path":"c.txt"}' } },
+      ]);
+      assert.equal(finish_reason, "tool_calls");
+      assert.equal(response.usage?.total_tokens, 7);
+    },
+  ],
+];
+
+const standIn = await startStandIn();
+await runChecks(checks, standIn);
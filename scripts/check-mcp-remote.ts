@@ -0,0 +1,141 @@
+/**
+ * Connects to local MCP stand-ins to check the transport selection of remote servers:
+ * streamable HTTP, the HTTP+SSE fallback and the errors that must not fall back.
+ *
+ * Run with `bun run scripts/check-mcp-remote.ts`
+ */
+import { connectMcpServer } from "@mcp/mcp";
+import type { McpRemoteServerConfig } from "@mcp/mcp.types";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { runChecks } from "./run-checks";
+
+type Mode = "http" | "sse" | "unauthorized";
+
+interface StandIn {
+  url: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+function createMcpServer(): McpServer {
+  const server = new McpServer({ name: "stand-in", version: "1.0.0" });
+  server.tool("ping", "Answers pong", async () => ({ content: [{ type: "text", text: "pong" }] }));
+  return server;
+}
+
+/**
+ * HTTP server answering as a streamable HTTP server, an HTTP+SSE server or one rejecting the credentials
+ */
+async function startStandIn(mode: Mode): Promise<StandIn> {
+  const requests: string[] = [];
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const server = http.createServer(async (req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    if (mode === "unauthorized") {
+      res.writeHead(401).end();
+    } else if (mode === "http" && req.url === "/mcp") {
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res);
+    } else if (mode === "sse" && req.url === "/mcp" && req.method === "GET") {
+      const transport = new SSEServerTransport("/messages", res);
+      sseTransports.set(transport.sessionId, transport);
+      await createMcpServer().connect(transport);
+    } else if (mode === "sse" && req.url?.startsWith("/messages")) {
+      const sessionId = new URL(req.url, "http://localhost").searchParams.get("sessionId") || "";
+      await sseTransports.get(sessionId)?.handlePostMessage(req, res);
+    } else {
+      res.writeHead(405).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+async function callPing(config: McpRemoteServerConfig): Promise<string> {
+  const client = await connectMcpServer("stand-in", config);
+  try {
+    const result = await client.callTool({ name: "ping", arguments: {} });
+    return (result.content as { text: string }[])[0]!.text;
+  } finally {
+    await client.close();
+  }
+}
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "connects over streamable HTTP",
+    async () => {
+      const standIn = await startStandIn("http");
+      try {
+        assert.equal(await callPing({ url: standIn.url }), "pong");
+        assert.ok(!standIn.requests.some(request => request.includes("/messages")), "no SSE session expected");
+      } finally {
+        await standIn.close();
+      }
+    },
+  ],
+  [
+    "falls back to SSE when streamable HTTP is not allowed",
+    async () => {
+      const standIn = await startStandIn("sse");
+      try {
+        assert.equal(await callPing({ url: standIn.url }), "pong");
+        assert.deepEqual(standIn.requests.slice(0, 2), ["POST /mcp", "GET /mcp"]);
+      } finally {
+        await standIn.close();
+      }
+    },
+  ],
+  [
+    "uses SSE right away when configured",
+    async () => {
+      const standIn = await startStandIn("sse");
+      try {
+        assert.equal(await callPing({ url: standIn.url, transport: "sse" }), "pong");
+        assert.equal(standIn.requests[0], "GET /mcp");
+      } finally {
+        await standIn.close();
+      }
+    },
+  ],
+  [
+    "reports rejected credentials without falling back",
+    async () => {
+      const standIn = await startStandIn("unauthorized");
+      try {
+        await assert.rejects(callPing({ url: standIn.url }), { code: 401 });
+        assert.ok(!standIn.requests.includes("GET /mcp"), "no SSE fallback on 401");
+      } finally {
+        await standIn.close();
+      }
+    },
+  ],
+  [
+    "reports connection errors without falling back",
+    async () => {
+      const standIn = await startStandIn("http");
+      await standIn.close();
+      await assert.rejects(callPing({ url: standIn.url }), error => !/SSE/i.test((error as Error).message));
+    },
+  ],
+];
+
+await runChecks(checks, undefined);
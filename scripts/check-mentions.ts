@@ -0,0 +1,109 @@
+/**
+ * Resolves mentions against a temporary project to check which ones are attached and which are reported as skipped.
+ *
+ * Run with `bun run scripts/check-mentions.ts`
+ */
+import { resolveFileMentions, resolveImageMentions } from "@messages";
+
+import assert from "node:assert/strict";
+import { rmSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { runChecks } from "./run-checks";
+
+const PNG = Buffer.from("89504e470d0a1a0a", "hex");
+
+/**
+ * Project with a small, an oversized and an ignored image, plus a directory named like an image that cannot be read.
+ * Its parent directory holds files outside of the project.
+ */
+async function createProject(): Promise<string> {
+  const parent = await fs.mkdtemp(path.join(os.tmpdir(), "codebro-mentions-"));
+  const project = path.join(parent, "project");
+  await fs.mkdir(path.join(project, "secrets"), { recursive: true });
+  await fs.writeFile(path.join(project, "shot.png"), PNG);
+  await fs.writeFile(path.join(project, "huge.png"), Buffer.alloc(6 * 1024 * 1024));
+  await fs.writeFile(path.join(project, "secrets", "key.png"), PNG);
+  await fs.mkdir(path.join(project, "folder.png"));
+  await fs.writeFile(path.join(project, "..notes"), "inside");
+  await fs.writeFile(path.join(parent, "outside.txt"), "outside");
+  await fs.writeFile(path.join(parent, "outside.png"), PNG);
+  return project;
+}
+
+const checks: [string, (project: string) => Promise<void>][] = [
+  [
+    "attaches mentioned images and leaves missing ones as text",
+    async project => {
+      const { images, skipped } = await resolveImageMentions("Compare @shot.png with @missing.png", project);
+      assert.deepEqual(
+        images.map(image => [image.source, image.mimeType, image.data]),
+        [["shot.png", "image/png", PNG.toString("base64")]]
+      );
+      assert.deepEqual(skipped, []);
+    },
+  ],
+  [
+    "skips oversized images",
+    async project => {
+      const { images, skipped } = await resolveImageMentions("What is in @huge.png and @shot.png?", project);
+      assert.deepEqual(
+        images.map(image => image.source),
+        ["shot.png"]
+      );
+      assert.deepEqual(skipped, [{ mention: "@huge.png", reason: "it is larger than 5 MB" }]);
+    },
+  ],
+  [
+    "skips images that cannot be read",
+    async project => {
+      const { images, skipped } = await resolveImageMentions("Look at @folder.png", project);
+      assert.deepEqual(images, []);
+      assert.equal(skipped.length, 1);
+      assert.equal(skipped[0]?.mention, "@folder.png");
+      assert.match(skipped[0]!.reason, /EISDIR/);
+    },
+  ],
+  [
+    "skips images matching ignoreFiles",
+    async project => {
+      const { images, skipped } = await resolveImageMentions("Look at @secrets/key.png", project, ["secrets"]);
+      assert.deepEqual(images, []);
+      assert.deepEqual(skipped, [{ mention: "@secrets/key.png", reason: "it matches ignoreFiles in config.json" }]);
+    },
+  ],
+  [
+    "inlines mentioned files, including names starting with two dots",
+    async project => {
+      const { attachments, skipped } = await resolveFileMentions("Read @..notes", project);
+      assert.deepEqual(attachments, [{ source: "..notes", content: "inside" }]);
+      assert.deepEqual(skipped, []);
+    },
+  ],
+  [
+    "skips files outside the project",
+    async project => {
+      const outside = path.join(path.dirname(project), "outside.txt");
+      const { attachments, skipped } = await resolveFileMentions(`Read @../outside.txt and @${outside}`, project);
+      assert.deepEqual(attachments, []);
+      assert.deepEqual(skipped, [
+        { mention: "@../outside.txt", reason: "it is outside the project" },
+        { mention: `@${outside}`, reason: "it is outside the project" },
+      ]);
+    },
+  ],
+  [
+    "skips images outside the project",
+    async project => {
+      const { images, skipped } = await resolveImageMentions("Look at @../outside.png", project);
+      assert.deepEqual(images, []);
+      assert.deepEqual(skipped, [{ mention: "@../outside.png", reason: "it is outside the project" }]);
+    },
+  ],
+];
+
+const project = await createProject();
+process.on("exit", () => rmSync(path.dirname(project), { recursive: true, force: true }));
+await runChecks(checks, project);
@@ -0,0 +1,158 @@
+/**
+ * Runs the Ollama client against a local stand-in answering with canned bodies, to check the capability detection,
+ * the model listing and the progress of model pulls.
+ *
+ * Run with `bun run scripts/check-ollama-client.ts`
+ */
+import { OllamaChatClient, type OllamaPullProgress } from "@client/ollama-client";
+
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { runChecks } from "./run-checks";
+
+// `/api/show` bodies by model, older servers answer without capabilities
+const MODELS: Record<string, object> = {
+  "tooly:8b": { capabilities: ["completion", "tools"], template: "{{ .Prompt }}" },
+  "llava:7b": { capabilities: ["completion", "vision"], template: "{{ .Prompt }}" },
+  "legacy:7b": { template: "{{ if .Tools }}{{ .Tools }}{{ end }}{{ .Prompt }}" },
+};
+
+const TAGS_BODY = { models: [{ name: "tooly:8b" }, { name: "llava:7b" }, { name: "legacy:7b" }] };
+
+const PULL_PROGRESS: object[] = [
+  { status: "pulling manifest" },
+  { status: "pulling 6a0746a1ec1a", digest: "sha256:6a0746a1ec1a", total: 4000, completed: 1000 },
+  { status: "pulling 6a0746a1ec1a", digest: "sha256:6a0746a1ec1a", total: 4000, completed: 4000 },
+  { status: "verifying sha256 digest" },
+  { status: "success" },
+];
+
+interface StandIn {
+  baseURL: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Ollama API stand-in, pull progress is written in small pieces cutting through the JSON lines
+ */
+async function startStandIn(): Promise<StandIn> {
+  const requests: string[] = [];
+  const server = http.createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    const body = raw ? JSON.parse(raw) : {};
+    requests.push(`${req.method} ${req.url} ${body.model || ""}`.trim());
+
+    if (req.url === "/api/show") {
+      const info = MODELS[body.model];
+      res
+        .writeHead(info ? 200 : 404, { "content-type": "application/json" })
+        .end(JSON.stringify(info || { error: `model '${body.model}' not found` }));
+    } else if (req.url === "/api/tags") {
+      res.writeHead(200, { "content-type": "application/json" }).end(JSON.stringify(TAGS_BODY));
+    } else if (req.url === "/api/pull") {
+      res.writeHead(200, { "content-type": "application/x-ndjson" });
+      const lines = MODELS[body.model]
+        ? PULL_PROGRESS
+        : [PULL_PROGRESS[0], { error: "pull model manifest: file does not exist" }];
+      const stream = lines.map(line => `${JSON.stringify(line)}\n`).join("");
+      for (let index = 0; index < stream.length; index += 29) {
+        res.write(stream.slice(index, index + 29));
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+      res.end();
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseURL: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+const checks: [string, (standIn: StandIn) => Promise<void>][] = [
+  [
+    "detects capabilities from /api/show and asks once per model",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      assert.equal(await client.supportsTools("tooly:8b"), true);
+      assert.equal(await client.supportsImages("tooly:8b"), false);
+      assert.equal(await client.supportsTools("llava:7b"), false);
+      assert.equal(await client.supportsImages("llava:7b"), true);
+      assert.equal(standIn.requests.filter(request => request === "POST /api/show tooly:8b").length, 1);
+    },
+  ],
+  [
+    "falls back to the chat template on servers without capabilities",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      assert.equal(await client.supportsTools("legacy:7b"), true);
+      assert.equal(await client.supportsImages("legacy:7b"), false);
+    },
+  ],
+  [
+    "reports missing models and asks again next time",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      await assert.rejects(
+        client.supportsTools("missing:1b"),
+        /Ollama error 404: model 'missing:1b' not found, pull it/
+      );
+      await assert.rejects(client.supportsTools("missing:1b"));
+      assert.equal(standIn.requests.filter(request => request === "POST /api/show missing:1b").length, 2);
+    },
+  ],
+  [
+    "lists the installed models from /api/tags",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      assert.deepEqual(await client.listModels(), ["legacy:7b", "llava:7b", "tooly:8b"]);
+    },
+  ],
+  [
+    "reports pull progress from /api/pull",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      const progress: OllamaPullProgress[] = [];
+      await client.pullModel("tooly:8b", update => progress.push(update));
+      assert.deepEqual(
+        progress.map(({ status, completed, total }) => [status, completed, total]),
+        [
+          ["pulling manifest", undefined, undefined],
+          ["pulling 6a0746a1ec1a", 1000, 4000],
+          ["pulling 6a0746a1ec1a", 4000, 4000],
+          ["verifying sha256 digest", undefined, undefined],
+          ["success", undefined, undefined],
+        ]
+      );
+    },
+  ],
+  [
+    "fails a pull on an error line",
+    async standIn => {
+      const client = new OllamaChatClient(standIn.baseURL);
+      const progress: OllamaPullProgress[] = [];
+      await assert.rejects(
+        client.pullModel("missing:1b", update => progress.push(update)),
+        /Failed to pull missing:1b: pull model manifest: file does not exist/
+      );
+      assert.deepEqual(
+        progress.map(update => update.status),
+        ["pulling manifest"]
+      );
+    },
+  ],
+];
+
+const standIn = await startStandIn();
+await runChecks(checks, standIn);
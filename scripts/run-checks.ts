@@ -0,0 +1,17 @@
+/**
+ * Run named checks one after the other, printing each outcome, then exit with 1 when one failed
+ */
+export async function runChecks<T>(checks: [string, (input: T) => Promise<void>][], input: T): Promise<never> {
+  let failed = 0;
+  for (const [name, check] of checks) {
+    try {
+      await check(input);
+      console.log(`✔ ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.error(`✘ ${name}: ${error.message}`);
+    }
+  }
+
+  process.exit(failed ? 1 : 0);
+}
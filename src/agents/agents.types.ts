@@ -1,9 +1,14 @@
 import type OpenAI from "openai";
 
+import type { CheckpointStore } from "@checkpoints";
+import type { ChatClient } from "@client";
 import type { GlobalConfig } from "@configs";
-import type { Message } from "@messages";
+import type { McpManager } from "@mcp";
+import type { Message, MessageImage } from "@messages";
+import type { PermissionManager } from "@permissions";
 import type { Tool, ToolCallResponse } from "@tools";
 import type { ProjectFile } from "@types";
+import type { UsageTracker } from "@usage";
 
 /**
  * Agent run history
@@ -24,6 +29,8 @@ export interface AgentState {
 export interface AgentConfig {
   name: string;
   tools: Tool[];
+  /** Agent type in agentMcpTools, its MCP tools are read from the servers on each request */
+  mcpAgentType?: string;
   mode?: AgentMode;
   systemPrompt?: string;
   plannerPrompt?: string;
@@ -41,20 +48,45 @@ export interface AIResponse {
 
 export type AgentMode = "PLAN" | "EXECUTE";
 
+/**
+ * Overrides applied to a single chat turn, e.g. by custom commands
+ */
+export interface ChatOptions {
+  mode?: AgentMode;
+  model?: string;
+  /** Names of the tools offered to the model, all tools when undefined */
+  allowedTools?: string[];
+  /** Images sent with the message, in addition to the ones mentioned as `@path/to/image.png` */
+  images?: MessageImage[];
+}
+
+/**
+ * Progress of a chat turn, for integrations rendering it themselves e.g. `codebro serve`
+ */
+export type AgentEvent =
+  | { type: "chunk"; content: string }
+  | { type: "tool_call"; id: string; name: string; args: Record<string, any> }
+  | { type: "tool_result"; id: string; name: string; result: unknown }
+  | { type: "status"; message: string };
+
+export type AgentEventHandler = (event: AgentEvent) => void;
+
 /**
  * Agent context
  */
 export interface AgentContext extends GlobalConfig {
   model: string;
   workingDirectory: string;
-  client: OpenAI;
+  client: ChatClient;
   memoryBank?: any;
   files?: ProjectFile[];
-  memory?: {
-    conversations: Array<{ role: string; content: string; timestamp: string }>;
-    lastUpdated: string;
-  };
-  mcpTools?: Tool[];
+  /** Runs the MCP servers and lists their tools, e.g. for /mcp and to stop them on exit */
+  mcp?: McpManager;
+  /** Models listed by the provider, e.g. installed Ollama models */
+  availableModels?: string[];
+  usage: UsageTracker;
+  permissions: PermissionManager;
+  checkpoints: CheckpointStore;
 
   [key: string]: any;
 }
@@ -1,32 +1,58 @@
 import type OpenAI from "openai";
-import process from "process";
 
 import type {
   AIResponse,
   AgentConfig,
   AgentContext,
+  AgentEventHandler,
   AgentMode,
   AgentRunHistory,
   AgentState,
+  ChatOptions,
 } from "@agents/agents.types";
-import { type Message, createAssistantMessage, createUserMessage } from "@messages";
-import { type Task, type Tool, formatToolsForPrompt, removeRedundantTools } from "@tools";
+import { type CompactionResult, compactMessages, needsCompaction } from "@agents/compaction";
+import type { ChatClient } from "@client";
+import { getAgentMcpTools } from "@mcp";
+import {
+  type Message,
+  type MessageImage,
+  createAssistantMessage,
+  createUserMessage,
+  getTextContent,
+  isImagePath,
+  loadImage,
+  removeImageParts,
+  resolveFileMentions,
+  resolveImageMentions,
+} from "@messages";
+import {
+  type Task,
+  type Tool,
+  formatToolCallingInstructions,
+  formatToolsForPrompt,
+  parseToolCalls,
+  removeRedundantTools,
+  toPromptToolMessages,
+} from "@tools";
 import { OraManager } from "@utils/ora-manager";
 
-import { promises as fs } from "node:fs";
-import path from "node:path";
-
-const defaultHistory: AgentRunHistory = {
-  messages: [],
-  toolCalls: [],
-};
+function createHistory(): AgentRunHistory {
+  return {
+    messages: [],
+    toolCalls: [],
+  };
+}
 
 export abstract class BaseAgent {
   protected config: AgentConfig;
   protected state: AgentState;
-  protected client: OpenAI;
+  protected client: ChatClient;
   protected tools: Tool[];
   protected mode: AgentMode = "PLAN";
+  private allowedTools?: string[];
+  private modelOverride?: string;
+  private eventHandler?: AgentEventHandler;
+  private firstPrompt?: string;
   private defaultSystemPrompt = `
 You are an AI coding assistant designed to assist with software development tasks called Codebro. You operate in two modes:
 - EXECUTE: Focus on direct task execution with minimal planning.
@@ -73,7 +99,7 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
 
     // Initialize the state
     this.state = {
-      history: defaultHistory,
+      history: createHistory(),
       context,
     };
     this.client = context.client;
@@ -85,7 +111,20 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
   }
 
   getTools(): OpenAI.Chat.ChatCompletionTool[] {
-    return this.tools.map(tool => tool.getDefinition());
+    return this.getActiveTools().map(tool => tool.getDefinition());
+  }
+
+  /**
+   * Tools offered to the model in the current turn
+   */
+  protected getActiveTools(): Tool[] {
+    const tools = this.getAvailableTools();
+    const allowedTools = this.allowedTools;
+    if (!allowedTools) {
+      return tools;
+    }
+
+    return tools.filter(tool => allowedTools.includes(tool.getDefinition().function.name));
   }
 
   pushMessage(msg: Message): void {
@@ -96,10 +135,62 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
     return this.state.history.messages;
   }
 
-  public async chat(oraManager: OraManager, message: string = "", onStream?: (chunk: string) => void): Promise<string> {
+  /**
+   * Send a message and run the tool loop until the model answers, options only apply to this message
+   */
+  public async chat(
+    oraManager: OraManager,
+    message: string = "",
+    onStream?: (chunk: string) => void,
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const previous = { mode: this.mode, modelOverride: this.modelOverride, allowedTools: this.allowedTools };
+    this.mode = options.mode || this.mode;
+    this.modelOverride = options.model || this.modelOverride;
+    this.allowedTools = options.allowedTools || this.allowedTools;
+
+    try {
+      return await this.runChat(oraManager, message, onStream, options.images);
+    } finally {
+      // Keep a mode the model switched to on its own during the turn
+      if (options.mode && this.mode === options.mode) {
+        this.mode = previous.mode;
+      }
+      this.modelOverride = previous.modelOverride;
+      this.allowedTools = previous.allowedTools;
+      // The model saw the images during the turn, later requests and saved sessions keep their placeholder only
+      this.state.history.messages = removeImageParts(this.getMessages());
+    }
+  }
+
+  private async runChat(
+    oraManager: OraManager,
+    message: string,
+    onStream?: (chunk: string) => void,
+    images: MessageImage[] = []
+  ): Promise<string> {
     // Add user message to history
     if (message) {
-      this.pushMessage(createUserMessage(message));
+      this.firstPrompt ??= message;
+      const { mcp, workingDirectory, config } = this.state.context;
+      const files = await resolveFileMentions(message, workingDirectory, config.ignoreFiles);
+      const resources = (await mcp?.resolveMentions(message)) || { attachments: [], skipped: [] };
+      const mentionedImages = await resolveImageMentions(message, workingDirectory, config.ignoreFiles);
+      [...files.skipped, ...resources.skipped, ...mentionedImages.skipped].forEach(({ mention, reason }) =>
+        this.warn(oraManager, `${mention} is not attached, ${reason}`)
+      );
+      const attachments = [...files.attachments, ...resources.attachments];
+      let attachedImages = [...images, ...mentionedImages.images];
+      if (attachedImages.length && !(await this.supportsImages(this.getModel()))) {
+        this.warn(
+          oraManager,
+          `Images are not sent, model ${this.getModel()} may not accept them. Set "vision": true for it in the models of config.json if it does`
+        );
+        attachedImages = [];
+      }
+      this.pushMessage(createUserMessage(message, attachments, attachedImages));
+      this.state.context.usage.startTurn();
+      this.state.context.checkpoints.begin(message);
     }
 
     // Add system message if this is the first message
@@ -111,15 +202,16 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
     }
 
     let finalResponse = "";
+    let toolImagesMessage: Message | undefined;
     while (true) {
+      // Keep the context within the token budget, tool loops can grow it quickly
+      if (needsCompaction(this.state.context, this.getMessages())) {
+        await this.compact(oraManager).catch(() => undefined);
+      }
+
       oraManager.start("🤖 Thinking ...");
       await this.handleSystemPromptBasedOnMode();
-      const { content, toolCalls } = await this.getResponse(
-        oraManager,
-        this.getMessages(),
-        this.state.context.model,
-        onStream
-      );
+      const { content, toolCalls } = await this.getResponse(oraManager, this.getMessages(), this.getModel(), onStream);
 
       if (content) {
         oraManager.succeed(content);
@@ -144,12 +236,23 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
       });
 
       toolCalls.forEach((toolCall, index) => {
+        this.state.history.toolCalls.push({ call: toolCall, result: toolResults[index] });
         this.pushMessage({
           role: "tool",
           content: JSON.stringify(toolResults[index]),
           tool_call_id: toolCall.id,
         });
       });
+
+      const toolImages = await this.getToolImages(toolResults);
+      if (toolImages.length) {
+        // Only the images of the latest tool calls are sent again
+        if (toolImagesMessage) {
+          toolImagesMessage.content = getTextContent(toolImagesMessage.content);
+        }
+        toolImagesMessage = createUserMessage("Images returned by the tools:", [], toolImages);
+        this.pushMessage(toolImagesMessage);
+      }
     }
 
     this.pushMessage({
@@ -157,21 +260,32 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
       content: finalResponse,
     });
 
-    // Limit conversation history to prevent memory issues
-    if (this.getMessages().length > 70) {
-      // TODO: Summary the last messages, slice for now
-      this.state.history.messages = [
-        {
-          role: "system",
-          content: await this.getSystemPrompt(),
-        },
-        ...this.getMessages().slice(-69),
-      ];
-    }
-
     return finalResponse;
   }
 
+  /**
+   * Summarize older messages into a pinned summary message to free up context
+   */
+  public async compact(oraManager: OraManager, instructions?: string): Promise<CompactionResult | undefined> {
+    oraManager.start("🗜️ Compacting conversation ...");
+    try {
+      const { messages, result } = await compactMessages(this.state.context, this.getMessages(), instructions);
+      this.state.history.messages = messages;
+      if (result) {
+        oraManager.succeed(
+          `Compacted ${result.summarizedMessages} messages (~${result.tokensBefore} → ~${result.tokensAfter} tokens)`
+        );
+      } else {
+        oraManager.succeed("Nothing to compact yet");
+      }
+
+      return result;
+    } catch (error: any) {
+      oraManager.fail(`Failed to compact conversation: ${error.message}`);
+      throw error;
+    }
+  }
+
   async handleSystemPromptBasedOnMode(): Promise<void> {
     this.state.history.messages.shift();
     this.state.history.messages.unshift({
@@ -189,31 +303,45 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
     try {
       let content = "";
       const isStreaming = callback ? typeof callback === "function" : false;
+      // Without native function calling, tools are declared in the system prompt and calls are written in the answer
+      const usePromptTools = await this.usesPromptTools(model);
+      const onStatus = (message: string) => this.warn(oraManager, message);
+      const request = usePromptTools
+        ? { model, messages: toPromptToolMessages(messages), onStatus }
+        : { model, messages, tools: this.getTools(), onStatus };
 
       if (!isStreaming) {
-        const response = await this.client.chat.completions.create({
-          model,
-          messages,
-          tools: this.getTools(),
-        });
+        const response = await this.client.complete(request);
+        // After a failover the response comes from another model
+        this.state.context.usage.record(response.model || model, response.usage);
         content = response?.choices[0]?.message.content || "";
-        oraManager.append(content);
-        return { content, isStreaming, toolCalls: response?.choices[0]?.message.tool_calls || [] };
+        const result = usePromptTools
+          ? parseToolCalls(content, this.getToolNames())
+          : { content, toolCalls: response?.choices[0]?.message.tool_calls || [] };
+        oraManager.append(result.content);
+        if (result.content) {
+          this.eventHandler?.({ type: "chunk", content: result.content });
+        }
+        return { ...result, isStreaming };
       }
 
       let isFirstChunk = true;
-      const stream = await this.client.chat.completions.create({
-        model,
-        messages,
-        tools: this.getTools(),
-        stream: true,
-      });
+      const stream = this.client.stream(request);
       const toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[] = [];
       for await (const chunk of stream) {
+        // The last chunk carries the usage of the whole request and has no choices
+        if (chunk.usage) {
+          this.state.context.usage.record(chunk.model || model, chunk.usage);
+        }
+
         const deltaContent = chunk.choices[0]?.delta?.content || "";
         const deltaToolCalls = chunk.choices[0]?.delta?.tool_calls || [];
         if (deltaContent) {
           content += deltaContent;
+          // Answers holding tool calls as text are sent once parsed, below
+          if (!usePromptTools) {
+            this.eventHandler?.({ type: "chunk", content: deltaContent });
+          }
           // disable streaming text to avoid polluted terminal
           // oraManager.append(deltaContent);
         } else if (chunk.choices[0]?.finish_reason == "stop") {
@@ -240,9 +368,16 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
         }
       }
 
+      if (usePromptTools) {
+        const result = parseToolCalls(content, this.getToolNames());
+        if (result.content) {
+          this.eventHandler?.({ type: "chunk", content: result.content });
+        }
+        return { isStreaming, ...result };
+      }
+
       return { content, isStreaming, toolCalls };
     } catch (error: any) {
-      process.stdout.write(JSON.stringify(error));
       throw new Error(`Failed to handle user input: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
@@ -263,11 +398,42 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
     const ora = new OraManager();
     const toolName = toolCall.function.name;
     const tool = this.findTool(toolName);
+    // Calls the model got wrong are answered with an error so it can retry, the other calls of the turn still run
+    let args: any;
+    let error: string | undefined;
+    try {
+      args = JSON.parse(toolCall.function.arguments || "{}");
+    } catch (parseError: any) {
+      error = `Invalid arguments for ${toolName}: ${parseError.message}`;
+    }
     if (!tool) {
-      throw new Error(`Tool ${toolName} not found`);
+      error = `Tool ${toolName} not found`;
+    }
+    this.eventHandler?.({ type: "tool_call", id: toolCall.id, name: toolName, args });
+    if (!tool || error) {
+      const result = { success: false, error };
+      this.eventHandler?.({ type: "tool_result", id: toolCall.id, name: toolName, result });
+      return result;
+    }
+
+    if (tool.getApprovalDetails) {
+      // Invalid arguments (e.g. a directory instead of a file) fail the call, not the whole turn
+      const permission = await tool
+        .getApprovalDetails(args, this.state.context)
+        .then(details => this.state.context.permissions.check(toolName, args, details))
+        .catch(error => ({ allowed: false, reason: `Failed to prepare ${toolName}: ${error.message}` }));
+      if (!permission.allowed) {
+        const result = { success: false, error: permission.reason };
+        this.eventHandler?.({ type: "tool_result", id: toolCall.id, name: toolName, result });
+        return result;
+      }
+    }
+
+    const modifiedFiles = tool.getModifiedFiles?.(args, this.state.context) || [];
+    if (modifiedFiles.length) {
+      await this.state.context.checkpoints.snapshot(modifiedFiles);
     }
 
-    const args = JSON.parse(toolCall.function.arguments);
     const formattedArgs = Object.keys(args || {})
       .map(key => `${key}=${args[key]}`)
       .join(", ");
@@ -276,12 +442,20 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
 
     const result = await tool.run(args, this.state.context);
 
-    tool.isMCPTool && ora.succeed(`Tool ${toolName} executed`);
+    if (tool.isMCPTool) {
+      if (result?.success === false) {
+        ora.fail(`Tool ${toolName} failed: ${result.error}`);
+      } else {
+        ora.succeed(`Tool ${toolName} executed`);
+      }
+    }
 
     if (toolName === "agentModeSwitch" && result.success && args.mode) {
       this.mode = args.mode;
     }
 
+    this.eventHandler?.({ type: "tool_result", id: toolCall.id, name: toolName, result });
+
     // if (toolName === "taskManager" && result.success && ["create", "update", "delete"].includes(args.action)) {
     //   await this.syncTasks();
     // }
@@ -302,8 +476,61 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
   //   }
   // }
   //
+  private getToolNames(): string[] {
+    return this.getActiveTools().map(tool => tool.getDefinition().function.name);
+  }
+
   protected findTool(name: string): Tool | undefined {
-    return this.tools?.find(tool => tool.getDefinition().function.name === name);
+    return this.getActiveTools().find(tool => tool.getDefinition().function.name === name);
+  }
+
+  /**
+   * Whether tools are declared in the system prompt instead of being sent for native function calling
+   */
+  protected async usesPromptTools(model: string): Promise<boolean> {
+    const { config, client } = this.state.context;
+    switch (config.toolCalling) {
+      case "prompt":
+        return true;
+      case "native":
+        return false;
+      default:
+        return client.supportsTools ? !(await client.supportsTools(model).catch(() => true)) : false;
+    }
+  }
+
+  /**
+   * Whether the model accepts images, `vision` of the model in config.json overrides what the provider reports
+   */
+  public async supportsImages(model: string): Promise<boolean> {
+    const { config, client } = this.state.context;
+    const vision = config.models?.[model]?.vision;
+    if (vision !== undefined) {
+      return vision;
+    }
+
+    return client.supportsImages ? client.supportsImages(model).catch(() => false) : false;
+  }
+
+  /**
+   * Images saved as artifacts by MCP tools, sent back to models accepting images
+   */
+  private async getToolImages(toolResults: any[]): Promise<MessageImage[]> {
+    const artifacts = toolResults.flatMap(result => (result?.artifacts || []) as string[]).filter(isImagePath);
+    if (!artifacts.length || !(await this.supportsImages(this.getModel()))) {
+      return [];
+    }
+
+    const { workingDirectory } = this.state.context;
+    const images = await Promise.all(
+      artifacts.map(artifact => loadImage(artifact, workingDirectory).catch(() => null))
+    );
+    return images.filter(image => image !== null);
+  }
+
+  private warn(oraManager: OraManager, message: string): void {
+    oraManager.warn(message);
+    this.eventHandler?.({ type: "status", message });
   }
 
   /**
@@ -313,10 +540,19 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
     let systemPrompt: string = this.defaultSystemPrompt;
     systemPrompt += `Current mode: ${this.mode}\n`;
     systemPrompt += (this.mode == "EXECUTE" ? this.config.systemPrompt : this.config.plannerPrompt) || "";
-    systemPrompt = systemPrompt.replace(
-      "@@TOOLS_DECLARE@@",
-      this.tools.length > 0 ? formatToolsForPrompt(this.tools) : ""
-    );
+    const activeTools = this.getActiveTools();
+    if (await this.usesPromptTools(this.getModel())) {
+      // The declarations are the only way the model learns about the tools, append them when there is no placeholder
+      const instructions = formatToolCallingInstructions(activeTools);
+      systemPrompt = systemPrompt.includes("@@TOOLS_DECLARE@@")
+        ? systemPrompt.replace("@@TOOLS_DECLARE@@", instructions)
+        : `${systemPrompt}\n${instructions}`;
+    } else {
+      systemPrompt = systemPrompt.replace(
+        "@@TOOLS_DECLARE@@",
+        activeTools.length > 0 ? formatToolsForPrompt(activeTools) : ""
+      );
+    }
     systemPrompt += `
     \n# Tool usage policy
     - If you intend to call multiple tools and there are no dependencies between the calls, make all of the independent calls in the same function_calls block.
@@ -345,19 +581,91 @@ Verify and fix until it run properly and make sure you did all steps mentioned a
    * Clear conversation history
    */
   public clearHistory(): void {
-    this.state.history = defaultHistory;
-    this.state.context.memory = { conversations: [], lastUpdated: new Date().toISOString() };
-
-    fs.writeFile(
-      path.join(this.state.context.workingDirectory, ".codebro/memory.json"),
-      JSON.stringify(this.state.context.memory, null, 2)
-    ).catch(console.error);
+    this.state.history = createHistory();
+    this.firstPrompt = undefined;
   }
 
   /**
    * Get the agent's history
    */
   public getHistory(): AgentRunHistory {
-    return this.state.history || defaultHistory;
+    return this.state.history;
+  }
+
+  /**
+   * Text the user typed for the first message of the history, before mentions were attached to it
+   */
+  public getFirstPrompt(): string | undefined {
+    return this.firstPrompt;
+  }
+
+  /**
+   * Restore a previously saved history, e.g. when resuming a session
+   */
+  public restoreHistory(history: AgentRunHistory, mode?: AgentMode): void {
+    this.state.history = {
+      messages: [...(history.messages || [])],
+      toolCalls: [...(history.toolCalls || [])],
+    };
+    this.firstPrompt = undefined;
+
+    if (mode) {
+      this.mode = mode;
+    }
+  }
+
+  /**
+   * Receive the progress of chat turns, e.g. streamed chunks and tool calls
+   */
+  public setEventHandler(handler?: AgentEventHandler): void {
+    this.eventHandler = handler;
+  }
+
+  public getMode(): AgentMode {
+    return this.mode;
+  }
+
+  public setMode(mode: AgentMode): void {
+    this.mode = mode;
+  }
+
+  /**
+   * Switch the default model used for the next requests, modes routed by config.json keep their model
+   */
+  public setModel(model: string): void {
+    this.state.context.model = model;
+  }
+
+  /**
+   * Model of the next request: a per-message override (e.g. a custom command), the model routed to the current mode,
+   * then the default model
+   */
+  public getModel(): string {
+    return this.modelOverride || this.getRoutedModel() || this.state.context.model;
+  }
+
+  /**
+   * Model routed to the current mode by `routing.modes` in config.json
+   */
+  public getRoutedModel(): string | undefined {
+    const modes = this.state.context.config.routing?.modes;
+    return this.mode === "PLAN" ? modes?.plan : modes?.execute;
+  }
+
+  /**
+   * Tools of the agent and the MCP tools it may use, MCP servers started later can list new tools
+   */
+  public getAvailableTools(): Tool[] {
+    const { mcpAgentType } = this.config;
+    if (!mcpAgentType) {
+      return this.tools;
+    }
+
+    const mcpTools = getAgentMcpTools(this.state.context, mcpAgentType);
+    return removeRedundantTools([...this.tools, ...mcpTools], this.state.context.config.excludeTools);
+  }
+
+  public getContext(): AgentContext {
+    return this.state.context;
   }
 }
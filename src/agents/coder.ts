@@ -96,7 +96,8 @@ You solve higher level problems using the tools in these tools, and can interact
       name: "codebro",
       systemPrompt,
       plannerPrompt,
-      tools: [...getCodeTools(), ...(context.mcpTools || [])],
+      tools: getCodeTools(),
+      mcpAgentType: "coder",
     });
   }
 }
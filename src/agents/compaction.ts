@@ -0,0 +1,172 @@
+import type { AgentContext } from "@agents/agents.types";
+import type { CompactionConfig } from "@configs";
+import { type Message, getImageContent, getTextContent } from "@messages";
+import { callLlm } from "@utils/llm";
+
+export const SUMMARY_MESSAGE_NAME = "conversation_summary";
+
+export const DEFAULT_COMPACTION_CONFIG: Required<CompactionConfig> = {
+  enabled: true,
+  maxContextTokens: 80000,
+  keepRecentTokens: 20000,
+};
+
+// Providers count an image as about a thousand tokens or more depending on its size
+const IMAGE_TOKENS = 1600;
+
+// Tool results can be huge (file contents, command output), they are cut before being summarized
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+const SUMMARY_SYSTEM_PROMPT = `
+You are summarizing the earlier part of a conversation between a user and Codebro, an AI coding assistant, so it can continue with a smaller context.
+Write a dense summary that the assistant can rely on instead of the original messages. Keep:
+- The user's goals, requirements and every decision or preference they stated
+- Files, functions and commands that were read, created, edited or run, and their outcome
+- Errors met and how they were resolved, and anything still open or pending
+- Important facts about the project (tech stack, conventions, structure)
+If a previous summary is given, merge it into the new one. Do not invent anything. Answer with the summary only.
+`;
+
+export interface CompactionResult {
+  summarizedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * Roughly estimate the token count of messages (~4 characters per token, a fixed count per image)
+ */
+export function estimateTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => {
+    const content = getTextContent(message.content);
+    const toolCalls = (message.tool_calls || []).reduce(
+      (sum, toolCall) => sum + toolCall.function.name.length + toolCall.function.arguments.length,
+      0
+    );
+
+    const images = getImageContent(message.content).length * IMAGE_TOKENS;
+
+    // 4 tokens of per-message overhead for role and separators
+    return total + Math.ceil((content.length + toolCalls) / 4) + images + 4;
+  }, 0);
+}
+
+export function isSummaryMessage(message?: Message): boolean {
+  return message?.role === "system" && message.name === SUMMARY_MESSAGE_NAME;
+}
+
+/**
+ * Resolve the compaction settings from config.json on top of the defaults
+ */
+export function getCompactionConfig(context: AgentContext): Required<CompactionConfig> {
+  return { ...DEFAULT_COMPACTION_CONFIG, ...context.config?.compaction };
+}
+
+/**
+ * Whether the messages exceed the configured token budget
+ */
+export function needsCompaction(context: AgentContext, messages: Message[]): boolean {
+  const { enabled, maxContextTokens } = getCompactionConfig(context);
+  return enabled && estimateTokens(messages) > maxContextTokens;
+}
+
+/**
+ * Summarize older turns into a single pinned summary message placed right after the system prompt.
+ * The most recent messages (up to keepRecentTokens) are kept verbatim, and the split never separates
+ * an assistant message from the tool results answering its tool calls.
+ */
+export async function compactMessages(
+  context: AgentContext,
+  messages: Message[],
+  instructions?: string
+): Promise<{ messages: Message[]; result?: CompactionResult }> {
+  const { keepRecentTokens } = getCompactionConfig(context);
+  const [systemMessage, ...rest] = messages;
+  const previousSummary = isSummaryMessage(rest[0]) ? rest.shift() : undefined;
+
+  const cutIndex = findCutIndex(rest, keepRecentTokens);
+  const older = rest.slice(0, cutIndex);
+  if (!systemMessage || !older.length) {
+    return { messages };
+  }
+
+  const recent = rest.slice(cutIndex);
+  let prompt = "";
+  if (previousSummary) {
+    prompt += `<previous_summary>\n${previousSummary.content}\n</previous_summary>\n\n`;
+  }
+  prompt += `<conversation>\n${older.map(formatMessage).join("\n\n")}\n</conversation>`;
+  if (instructions) {
+    prompt += `\n\nAdditional instructions for the summary: ${instructions}`;
+  }
+
+  const summary = await callLlm(context, SUMMARY_SYSTEM_PROMPT, prompt);
+  if (!summary.trim()) {
+    throw new Error("Failed to compact conversation: empty summary");
+  }
+
+  const compacted: Message[] = [
+    systemMessage,
+    {
+      role: "system",
+      name: SUMMARY_MESSAGE_NAME,
+      content: `Summary of the earlier conversation:\n${summary.trim()}`,
+    },
+    ...recent,
+  ];
+
+  return {
+    messages: compacted,
+    result: {
+      summarizedMessages: older.length,
+      tokensBefore: estimateTokens(messages),
+      tokensAfter: estimateTokens(compacted),
+    },
+  };
+}
+
+/**
+ * Find where recent messages start: walk back until keepRecentTokens is reached, then move forward to a user message.
+ * Starting with a user message keeps tool call pairs together and the user first ordering providers like Anthropic
+ * expect after the summary.
+ */
+function findCutIndex(messages: Message[], keepRecentTokens: number): number {
+  let cutIndex = messages.length;
+  let recentTokens = 0;
+  while (cutIndex > 0) {
+    recentTokens += estimateTokens(messages.slice(cutIndex - 1, cutIndex));
+    if (recentTokens > keepRecentTokens) {
+      break;
+    }
+    cutIndex--;
+  }
+
+  const isUserMessage = (index: number) => messages[index]?.role === "user";
+  let start = cutIndex;
+  while (start < messages.length && !isUserMessage(start)) {
+    start++;
+  }
+
+  // Always keep the latest turn verbatim, even when it alone exceeds the budget
+  if (start >= messages.length) {
+    start = Math.min(cutIndex, messages.length - 1);
+    while (start > 0 && !isUserMessage(start)) {
+      start--;
+    }
+  }
+
+  return start;
+}
+
+function formatMessage(message: Message): string {
+  let content = getTextContent(message.content);
+  if (message.role === "tool" && content.length > MAX_TOOL_RESULT_CHARS) {
+    content = `${content.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated]`;
+  }
+
+  const toolCalls = (message.tool_calls || [])
+    .map(toolCall => `\n[tool call ${toolCall.function.name}(${toolCall.function.arguments})]`)
+    .join("");
+
+  return `[${message.role}] ${content}${toolCalls}`;
+}
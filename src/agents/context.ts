@@ -1,21 +1,42 @@
+import chalk from "chalk";
+
 import type { AgentContext } from "@agents/agents.types";
-import { getClient } from "@client";
-import { type Config, loadGlobalConfig } from "@configs";
-import { createToolsFromMcpConfig } from "@mcp";
+import { CheckpointStore } from "@checkpoints";
+import { createChatClient } from "@client";
+import { type Config, formatUntrustedProject, loadGlobalConfig } from "@configs";
+import { MCP_TOOL_CACHE_FILE, McpManager } from "@mcp";
+import { PermissionManager } from "@permissions";
+import { UsageTracker } from "@usage";
+
+import * as path from "node:path";
 
 /**
  * Gather context from the current environment
  */
 export async function gatherContext(config: Config): Promise<AgentContext> {
-  const globalConfig = await loadGlobalConfig();
   const workingDirectory = process.cwd();
-  const mcpTools = await createToolsFromMcpConfig({ config: globalConfig.config.mcpServers });
+  const globalConfig = await loadGlobalConfig(workingDirectory);
+  if (globalConfig.untrustedProjectKeys?.length) {
+    console.warn(chalk.yellow(formatUntrustedProject(globalConfig.untrustedProjectKeys)));
+  }
+  const mcp = new McpManager({
+    config: globalConfig.config.mcpServers,
+    cachePath: path.join(globalConfig.configDir, MCP_TOOL_CACHE_FILE),
+  });
+  await mcp.loadTools();
+  const client = createChatClient(config, globalConfig.config);
+  // Only providers serving local models can list them, used for model completion
+  const availableModels = await client.listModels?.().catch(() => undefined);
 
   return {
     ...config,
     ...globalConfig,
-    client: getClient(config),
+    client,
     workingDirectory,
-    mcpTools,
+    mcp,
+    availableModels,
+    usage: new UsageTracker(globalConfig.config.models),
+    permissions: new PermissionManager(globalConfig.config.permissions),
+    checkpoints: new CheckpointStore(workingDirectory),
   };
 }
@@ -66,10 +66,8 @@ Only generate optimized version of prompt, don't generate the result of that pro
       name: "Prompt bro",
       systemPrompt,
       mode: "EXECUTE",
-      tools: [
-        ...getPrompterTools(),
-        ...(context.mcpTools || []).filter(tool => tool.getDefinition().function.name.startsWith("puppeteer")),
-      ],
+      tools: getPrompterTools(),
+      mcpAgentType: "prompter",
     });
   }
 }
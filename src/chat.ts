@@ -4,9 +4,21 @@ import figlet from "figlet";
 import process from "process";
 
 import { getAgent } from "@agents";
+import type { ChatOptions } from "@agents/agents.types";
 import type { BaseAgent } from "@agents/base-agent";
 import { gatherContext } from "@agents/context";
-import { createConfig } from "@configs";
+import {
+  type SlashCommandContext,
+  type SlashCommandResult,
+  SlashCommandRegistry,
+  getBuiltinCommands,
+  getMcpPromptCommands,
+  loadCustomCommands,
+} from "@commands";
+import { loadGlobalConfig, resolveConfig, setProjectTrust } from "@configs";
+import { createTerminalApprovalHandler } from "@permissions";
+import { type Session, createSession, loadSession, saveSession } from "@sessions";
+import { type UsageTracker, formatUsage } from "@usage";
 import { OraManager } from "@utils/ora-manager";
 
 import * as readline from "node:readline/promises";
@@ -16,69 +28,184 @@ import { cliApp } from "./cli";
 const controller = new AbortController();
 const signal = controller.signal;
 
-// Define CLI commands
-const COMMANDS = {
-  EXIT: ["exit", "quit", "bye"],
-};
+// Plain words leaving the chat, next to the /exit command
+const EXIT_WORDS = ["exit", "quit", "bye"];
 
 /**
  * Main entry point for the CLI
  */
 export async function main() {
-  const { mode, provider } = cliApp.opts();
-  const config = createConfig(provider);
+  const { resume } = cliApp.opts();
+  const resumed = resume ? await loadSession(process.cwd(), resume) : undefined;
+
+  // Values stored in the resumed session win over CLI defaults, explicit CLI options win over both
+  const mode = getOptionValue("mode", resumed?.agent);
+  const provider = getOptionValue("provider", resumed?.provider);
+  const model = cliApp.opts().model || resumed?.model;
+  await confirmProjectTrust();
+  const config = await resolveConfig(provider, model ? { model } : {});
   const context = await gatherContext(config);
   const agent = getAgent(context, mode);
-  printWelcomeMessage(mode, provider, config.model);
 
-  await chatLoop(agent).catch(console.error);
+  let session: Session;
+  if (resumed) {
+    agent.restoreHistory(resumed.history, resumed.mode);
+    context.usage.restore(resumed.usage);
+    session = resumed;
+  } else {
+    session = createSession(agent, { agentType: mode, provider });
+  }
+  context.checkpoints.attach(session.id);
+
+  printWelcomeMessage(mode, provider, agent.getModel(), session, context.usage);
+
+  await chatLoop(agent, session).catch(console.error);
+}
+
+/**
+ * Ask whether to trust the project when its config.json sets keys ignored for untrusted projects, the answer is
+ * stored in the global config
+ */
+async function confirmProjectTrust() {
+  const { projectDir, untrustedProjectKeys } = await loadGlobalConfig();
+  if (!projectDir || !untrustedProjectKeys?.length || !process.stdin.isTTY) {
+    return;
+  }
+
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    console.log(chalk.yellow(`The config.json of ${projectDir} sets ${untrustedProjectKeys.join(", ")}.`));
+    const answer = await prompt.question(chalk.yellow("Trust this project? Only trust repositories you know (y/N) "));
+    if (answer.trim().toLowerCase() === "y") {
+      await setProjectTrust(projectDir, true);
+    }
+  } finally {
+    prompt.close();
+  }
+}
+
+function getOptionValue(name: string, sessionValue?: string) {
+  if (sessionValue && cliApp.getOptionValueSource(name) === "default") {
+    return sessionValue;
+  }
+
+  return cliApp.opts()[name];
 }
 
-function printWelcomeMessage(mode: string, provider: string, model: string) {
+function printWelcomeMessage(mode: string, provider: string, model: string, session: Session, usage: UsageTracker) {
   console.log(chalk.yellow(figlet.textSync("Codebro", { horizontalLayout: "full" })));
   console.log(chalk.yellow("------------------------------------------------------"));
   console.log(chalk.yellow(`   Mode: ${mode}     Provider: ${provider}     Model: ${model} `));
+  console.log(chalk.yellow(`   Session: ${session.id}`));
+  console.log(chalk.yellow(`   ${formatUsage(usage.getSessionTotal())}`));
   console.log(chalk.yellow("------------------------------------------------------"));
-}
 
-const terminal = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-  prompt: "> ",
-});
+  const messageCount = session.history.messages.filter(message => message.role !== "system").length;
+  if (messageCount) {
+    console.log(chalk.dim(`Resumed session "${session.title}" with ${messageCount} messages.`));
+  }
+}
 
-async function chatLoop(agent: BaseAgent, useStreaming: boolean = true) {
+async function chatLoop(agent: BaseAgent, session: Session, useStreaming: boolean = true) {
+  const registry = new SlashCommandRegistry().register(...getBuiltinCommands());
+  const { workingDirectory, mcp } = agent.getContext();
+  for (const command of [...(await loadCustomCommands(workingDirectory)), ...getMcpPromptCommands(mcp)]) {
+    if (registry.find(command.name)) {
+      console.warn(chalk.yellow(`Command /${command.name} is ignored, it conflicts with another command`));
+      continue;
+    }
+    registry.register(command);
+  }
   const oraManager = new OraManager();
+  // Created lazily so non-interactive commands can consume stdin themselves
+  const terminal = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: "> ",
+    completer: (line: string) => registry.complete(line, chat),
+  });
+  const chat: SlashCommandContext = { agent, session, terminal, oraManager, registry };
+  agent.getContext().permissions.setApprovalHandler(createTerminalApprovalHandler(terminal));
+
+  // Handle SIGINT (Ctrl+C)
+  process.on("SIGINT", () => {
+    console.log("Bye bye \n");
+    oraManager.succeed("Bye bye !");
+    printExitMessage(chat.session, agent);
+    process.exit(1);
+  });
+
   oraManager.start("Setting up...");
-  oraManager.succeed("Hi, how can I help you! Type your message (or 'exit' to quit)");
+  oraManager.succeed("Hi, how can I help you! Type your message (/help for commands, 'exit' to quit)");
   while (true) {
     const userInput = (await terminal.question(chalk.blue("\nYou: "))).trim();
 
-    // Handle SIGINT (Ctrl+C)
-    process.on("SIGINT", () => {
-      console.log("Bye bye \n");
-      oraManager.succeed("Bye bye !");
-      process.exit(1);
-    });
-
     if (!userInput) {
       continue;
     }
 
-    if (COMMANDS.EXIT.includes(userInput)) {
-      oraManager.succeed("Bye bye !");
-      process.exit(0);
+    const parsed = EXIT_WORDS.includes(userInput) ? { name: "exit", args: "" } : registry.parse(userInput);
+    if (parsed) {
+      const command = registry.find(parsed.name);
+      if (!command) {
+        oraManager.start("");
+        oraManager.fail(`Unknown command /${parsed.name}, type /help to see available commands`);
+        continue;
+      }
+
+      let result: SlashCommandResult | void;
+      try {
+        result = await command.run(parsed.args, chat);
+      } catch (error: any) {
+        oraManager.start("");
+        oraManager.fail(`Command /${parsed.name} failed: ${error.message}`);
+        continue;
+      }
+      if (result?.exit) {
+        oraManager.start("");
+        oraManager.succeed("Bye bye !");
+        printExitMessage(chat.session, agent);
+        await agent.getContext().mcp?.close();
+        process.exit(0);
+      }
+      if (result?.prompt) {
+        await sendMessage(chat, result.prompt, useStreaming, result.chatOptions);
+      }
+      continue;
     }
 
-    oraManager.start("🤖 Thinking ...");
+    await sendMessage(chat, userInput, useStreaming);
+  }
+}
 
-    try {
-      const onStream = useStreaming ? (chunk: string) => process.stdout.write(chunk) : undefined;
-      const response = await agent.chat(oraManager, userInput, onStream);
-      oraManager.succeed(response);
-    } catch (error: any) {
-      oraManager.fail("Error during get response: " + error.message || "Agent error");
-      console.error(error);
-    }
+async function sendMessage(chat: SlashCommandContext, message: string, useStreaming: boolean, options?: ChatOptions) {
+  const { agent, oraManager } = chat;
+  oraManager.start("🤖 Thinking ...");
+
+  // Images attached with /image go with this message
+  if (chat.pendingImages?.length) {
+    options = { ...options, images: [...chat.pendingImages, ...(options?.images || [])] };
+    chat.pendingImages = undefined;
+  }
+
+  try {
+    const onStream = useStreaming ? (chunk: string) => process.stdout.write(chunk) : undefined;
+    const response = await agent.chat(oraManager, message, onStream, options);
+    oraManager.succeed(response);
+  } catch (error: any) {
+    oraManager.fail("Error during get response: " + error.message || "Agent error");
+    console.error(error);
+  }
+
+  await saveSession(chat.session, agent).catch(error => console.error(chalk.red(error.message)));
+}
+
+function printExitMessage(session: Session, agent: BaseAgent) {
+  console.log(chalk.yellow("------------------------------------------------------"));
+  console.log(chalk.yellow(`   ${formatUsage(agent.getContext().usage.getSessionTotal())}`));
+  console.log(chalk.yellow("------------------------------------------------------"));
+
+  if (session.history.messages.length) {
+    console.log(chalk.dim(`Session saved, resume it with: codebro --resume ${session.id}`));
   }
 }
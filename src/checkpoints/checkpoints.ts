@@ -0,0 +1,186 @@
+import chalk from "chalk";
+import { v4 as uuidv4 } from "uuid";
+
+import { existsSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { Checkpoint } from "./checkpoints.types";
+
+export const CHECKPOINTS_DIR = path.join(".codebro", "checkpoints");
+
+const MANIFEST_FILE_NAME = "manifest.json";
+
+/**
+ * Snapshot files before the agent mutates them so a turn can be rolled back,
+ * independently of git. Checkpoints live in .codebro/checkpoints/<sessionId>/<id>.
+ */
+export class CheckpointStore {
+  private sessionId = uuidv4().slice(0, 8);
+  private pendingMessage = "";
+  private current?: Checkpoint;
+  // Tools run in parallel, snapshots are written one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private workingDirectory: string) {}
+
+  /**
+   * Store checkpoints next to the given session, e.g. after creating or resuming it
+   */
+  attach(sessionId: string): void {
+    this.sessionId = sessionId;
+    this.current = undefined;
+  }
+
+  /**
+   * Start a new checkpoint for a user message, created on disk with the first snapshot
+   */
+  begin(message: string): void {
+    this.pendingMessage = message;
+    this.current = undefined;
+  }
+
+  /**
+   * Save the current content of files unless they were already saved in this checkpoint
+   */
+  async snapshot(filePaths: string[]): Promise<void> {
+    const result = this.queue.then(() => this.saveFiles(filePaths));
+    this.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  private async saveFiles(filePaths: string[]): Promise<void> {
+    for (const filePath of filePaths) {
+      const absolutePath = path.resolve(this.workingDirectory, filePath);
+      const relativePath = path.relative(this.workingDirectory, absolutePath);
+      const checkpoint = this.current || (await this.create());
+      if (checkpoint.files.some(file => file.path === relativePath)) {
+        continue;
+      }
+
+      const checkpointDir = this.getCheckpointDir(checkpoint.id);
+      const existed = existsSync(absolutePath);
+      const blob = existed ? `${checkpoint.files.length}.snapshot` : undefined;
+      if (blob) {
+        await fs.copyFile(absolutePath, path.join(checkpointDir, blob));
+      }
+
+      checkpoint.files.push({ path: relativePath, existed, blob });
+      await this.writeManifest(checkpoint);
+    }
+  }
+
+  /**
+   * List checkpoints of the session, oldest first
+   */
+  async list(): Promise<Checkpoint[]> {
+    const sessionDir = this.getSessionDir();
+    if (!existsSync(sessionDir)) {
+      return [];
+    }
+
+    const checkpoints: Checkpoint[] = [];
+    for (const entry of await fs.readdir(sessionDir)) {
+      const manifestPath = path.join(sessionDir, entry, MANIFEST_FILE_NAME);
+      if (existsSync(manifestPath)) {
+        checkpoints.push(JSON.parse(await fs.readFile(manifestPath, "utf-8")));
+      }
+    }
+
+    return checkpoints.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Roll back every file touched since checkpoint `id` (included) and drop those checkpoints.
+   * Returns the restored file paths.
+   */
+  async restore(id: number): Promise<string[]> {
+    const checkpoints = (await this.list()).filter(checkpoint => checkpoint.id >= id);
+    if (!checkpoints.length) {
+      throw new Error(`Checkpoint #${id} not found`);
+    }
+
+    const restored = new Set<string>();
+    // Newest first, so the oldest snapshot of a file is the one that remains
+    for (const checkpoint of checkpoints.reverse()) {
+      const checkpointDir = this.getCheckpointDir(checkpoint.id);
+      for (const file of checkpoint.files) {
+        const absolutePath = path.resolve(this.workingDirectory, file.path);
+        if (file.existed && file.blob) {
+          await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+          await fs.copyFile(path.join(checkpointDir, file.blob), absolutePath);
+        } else {
+          await fs.rm(absolutePath, { force: true });
+        }
+        restored.add(file.path);
+      }
+
+      await fs.rm(checkpointDir, { recursive: true, force: true });
+    }
+
+    this.current = undefined;
+    return [...restored];
+  }
+
+  /**
+   * Roll back the latest checkpoint
+   */
+  async undo(): Promise<{ checkpoint?: Checkpoint; files: string[] }> {
+    const checkpoint = (await this.list()).pop();
+    if (!checkpoint) {
+      return { files: [] };
+    }
+
+    return { checkpoint, files: await this.restore(checkpoint.id) };
+  }
+
+  private async create(): Promise<Checkpoint> {
+    const checkpoints = await this.list();
+    const checkpoint: Checkpoint = {
+      id: (checkpoints[checkpoints.length - 1]?.id || 0) + 1,
+      createdAt: new Date().toISOString(),
+      message: this.pendingMessage,
+      files: [],
+    };
+
+    await fs.mkdir(this.getCheckpointDir(checkpoint.id), { recursive: true });
+    await this.writeManifest(checkpoint);
+    this.current = checkpoint;
+
+    return checkpoint;
+  }
+
+  private async writeManifest(checkpoint: Checkpoint): Promise<void> {
+    await fs.writeFile(
+      path.join(this.getCheckpointDir(checkpoint.id), MANIFEST_FILE_NAME),
+      JSON.stringify(checkpoint, null, 2),
+      "utf-8"
+    );
+  }
+
+  private getSessionDir(): string {
+    return path.join(this.workingDirectory, CHECKPOINTS_DIR, this.sessionId);
+  }
+
+  private getCheckpointDir(id: number): string {
+    return path.join(this.getSessionDir(), String(id));
+  }
+}
+
+export function printCheckpoints(checkpoints: Checkpoint[]) {
+  if (!checkpoints.length) {
+    console.log(chalk.yellow("No checkpoints yet, they are created when codebro changes files."));
+    return;
+  }
+
+  for (const checkpoint of checkpoints) {
+    const message = checkpoint.message.replace(/\s+/g, " ").trim();
+    console.log(
+      `${chalk.blue(`#${checkpoint.id}`)}  ${chalk.dim(checkpoint.createdAt)}  ${message.length > 60 ? `${message.slice(0, 57)}...` : message}`
+    );
+    for (const file of checkpoint.files) {
+      console.log(chalk.dim(`    ${file.existed ? "~" : "+"} ${file.path}`));
+    }
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * State of a file before the first mutation in a checkpoint
+ */
+export interface CheckpointFile {
+  /** Path relative to the working directory */
+  path: string;
+  /** Whether the file existed, restoring a file that did not exist deletes it */
+  existed: boolean;
+  /** Name of the snapshot blob inside the checkpoint directory */
+  blob?: string;
+}
+
+/**
+ * Files touched while answering one user message
+ */
+export interface Checkpoint {
+  id: number;
+  createdAt: string;
+  /** The user message that started the checkpoint */
+  message: string;
+  files: CheckpointFile[];
+}
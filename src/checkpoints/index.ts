@@ -0,0 +1,2 @@
+export * from "./checkpoints.types";
+export * from "./checkpoints";
@@ -3,8 +3,40 @@ import { Command, Option, type OptionValues } from "commander";
 import { config } from "dotenv";
 
 import { main } from "@chat";
-import { loadGlobalConfig, printConfigMessage } from "@configs";
+import { getClient } from "@client";
+import {
+  CLIENT_PROVIDERS,
+  CONFIG_FILE_NAME,
+  type CodebroConfig,
+  createConfig,
+  editConfigFile,
+  findProjectConfig,
+  getConfigDir,
+  getConfigValue,
+  getProjectConfigPath,
+  initializeConfigFiles,
+  loadGlobalConfig,
+  parseConfigValue,
+  printConfigMessage,
+  printMcpServers,
+  printProfiles,
+  printValidationResults,
+  resolveConfig,
+  setConfigValue,
+  setProjectTrust,
+  TRUSTED_PROJECT_KEYS,
+  unsetConfigValue,
+  updateConfigFile,
+  updateGlobalConfigFile,
+  validateConfigFiles,
+} from "@configs";
+import { serveMcpStdio } from "@mcp/server";
+import { RUN_EXIT_CODES, resolvePrompt, runPrompt } from "@run";
+import { serveStdio } from "@server";
+import { deleteSession, listSessions, loadSession, printSession, printSessionList } from "@sessions";
+import { OraManager } from "@utils/ora-manager";
 
+import * as path from "node:path";
 import * as process from "node:process";
 
 import { version } from "../package.json";
@@ -12,19 +44,330 @@ import { version } from "../package.json";
 config();
 
 export const cliApp = new Command();
-const viewCommand = new Command()
+const configCommand = new Command()
   .command("config")
-  .description("Manage Codebro configuration")
+  .description("Manage Codebro configuration, shows the effective configuration by default")
   .option("--view", "View current configuration")
-  .action(async options => {
-    // TODO: handle more options e.g. update MCP config path, handle view by default
-
+  .action(async () => {
     const globalConfig = await loadGlobalConfig();
     printConfigMessage(globalConfig);
 
     process.exit(0);
   });
 
+configCommand
+  .command("get")
+  .description("Print a value of the effective configuration")
+  .argument("<key>", 'Config key, e.g. compaction.maxContextTokens or models["gpt-4.1"].inputPrice')
+  .action(key =>
+    runConfigAction(async () => {
+      const value = getConfigValue((await loadGlobalConfig()).config, key);
+      if (value === undefined) {
+        throw new Error(`'${key}' is not set`);
+      }
+
+      console.log(typeof value === "string" ? value : JSON.stringify(value, null, 2));
+    })
+  );
+
+configCommand
+  .command("set")
+  .description("Set a value, the file is left untouched when the result is invalid")
+  .argument("<key>", "Config key, e.g. compaction.enabled")
+  .argument("<value>", "JSON value e.g. false or '[\"webSearch\"]', plain strings need no quotes")
+  .option("--project", "Write to the project .codebro/config.json instead of the global config")
+  .action((key, value, { project }) =>
+    runConfigAction(async () => {
+      const configPath = await updateTargetConfig(project, config =>
+        setConfigValue(config, key, parseConfigValue(value))
+      );
+      console.log(`Set ${key} in ${configPath}`);
+    })
+  );
+
+configCommand
+  .command("unset")
+  .description("Remove a value")
+  .argument("<key>", "Config key, e.g. compaction")
+  .option("--project", "Remove from the project .codebro/config.json instead of the global config")
+  .action((key, { project }) =>
+    runConfigAction(async () => {
+      let removed = false;
+      const configPath = await updateTargetConfig(project, config => {
+        removed = unsetConfigValue(config, key);
+      });
+      console.log(removed ? `Removed ${key} from ${configPath}` : `'${key}' is not set in ${configPath}`);
+    })
+  );
+
+configCommand
+  .command("edit")
+  .description("Open config.json in $VISUAL or $EDITOR, then validate it")
+  .option("--project", "Edit the project .codebro/config.json instead of the global config")
+  .action(({ project }) =>
+    runConfigAction(async () => {
+      await initializeConfigFiles();
+      await editConfigFile(getTargetConfigPath(project));
+      if (!printValidationResults(await validateConfigFiles(process.cwd()))) {
+        process.exit(1);
+      }
+    })
+  );
+
+configCommand
+  .command("validate")
+  .description("Check the global and project config files")
+  .action(() =>
+    runConfigAction(async () => {
+      if (!printValidationResults(await validateConfigFiles(process.cwd()))) {
+        process.exit(1);
+      }
+    })
+  );
+
+configCommand
+  .command("trust")
+  .description(`Allow the project config.json to set ${TRUSTED_PROJECT_KEYS.join(", ")}`)
+  .option("--revoke", "Ignore these keys of the project config.json again")
+  .action(({ revoke }) =>
+    runConfigAction(async () => {
+      const projectDir = findProjectConfig(process.cwd()).dir || process.cwd();
+      await setProjectTrust(projectDir, !revoke);
+      console.log(revoke ? `${projectDir} is no longer trusted` : `Trusted ${projectDir}`);
+    })
+  );
+
+const mcpConfigCommand = configCommand.command("mcp").description("Manage MCP servers");
+
+mcpConfigCommand
+  .command("list", { isDefault: true })
+  .description("List the MCP servers of the effective configuration")
+  .action(() =>
+    runConfigAction(async () => {
+      const { config, configSources } = await loadGlobalConfig();
+      printMcpServers(config, configSources);
+    })
+  );
+
+mcpConfigCommand
+  .command("add")
+  .description("Add or replace an MCP server, pass server options after --, e.g. add fs npx -- -y <package>")
+  .argument("<name>", "Server name")
+  .argument("<command>", "Command starting the server")
+  .argument("[args...]", "Arguments of the command")
+  .option("-e, --env <mapping...>", "Environment variables as NAME=value or NAME=ENV_VAR_NAME")
+  .option("--project", "Add to the project .codebro/config.json instead of the global config")
+  .action((name: string, command: string, args: string[], { env, project }) =>
+    runConfigAction(async () => {
+      const envMapping = parseEnvMapping(env || []);
+      const configPath = await updateTargetConfig(project, config => {
+        config.mcpServers = {
+          ...config.mcpServers,
+          [name]: { command, args, ...(Object.keys(envMapping).length ? { envMapping } : {}) },
+        };
+      });
+      console.log(`Added MCP server ${name} to ${configPath}`);
+    })
+  );
+
+mcpConfigCommand
+  .command("remove")
+  .description("Remove an MCP server")
+  .argument("<name>", "Server name")
+  .option("--project", "Remove from the project .codebro/config.json instead of the global config")
+  .action((name: string, { project }) =>
+    runConfigAction(async () => {
+      let removed = false;
+      const configPath = await updateTargetConfig(project, config => {
+        removed = Boolean(config.mcpServers?.[name]);
+        delete config.mcpServers?.[name];
+      });
+      console.log(removed ? `Removed MCP server ${name} from ${configPath}` : `No MCP server ${name} in ${configPath}`);
+    })
+  );
+
+const profilesConfigCommand = configCommand.command("profiles").description("Manage provider profiles");
+
+profilesConfigCommand
+  .command("list", { isDefault: true })
+  .description("List the provider profiles of the effective configuration")
+  .action(() =>
+    runConfigAction(async () => {
+      const { config, configSources } = await loadGlobalConfig();
+      printProfiles(config, configSources);
+    })
+  );
+
+profilesConfigCommand
+  .command("test")
+  .description("Send a short request with each profile, or the given ones, to check its settings and credentials")
+  .argument("[names...]", "Profile names")
+  .action((names: string[]) =>
+    runConfigAction(async () => {
+      const { config } = await loadGlobalConfig();
+      const profiles = config.profiles || {};
+      const failed: string[] = [];
+      for (const name of names.length ? names : Object.keys(profiles)) {
+        if (!profiles[name]) {
+          throw new Error(`Unknown profile '${name}'`);
+        }
+
+        const oraManager = new OraManager();
+        oraManager.start(`Testing ${name}...`);
+        try {
+          const profileConfig = createConfig(name, {}, profiles);
+          const startedAt = Date.now();
+          await getClient(profileConfig).complete({
+            model: profileConfig.model,
+            messages: [{ role: "user", content: "Reply with OK." }],
+          });
+          oraManager.succeed(`${name}  ${profileConfig.provider}/${profileConfig.model}  ${Date.now() - startedAt}ms`);
+        } catch (error: any) {
+          oraManager.fail(`${name}  ${error.message.replace(/^Error: /, "")}`);
+          failed.push(name);
+        }
+      }
+
+      if (failed.length) {
+        throw new Error(`${failed.length} profile(s) failed: ${failed.join(", ")}`);
+      }
+    })
+  );
+
+const runCommand = new Command()
+  .command("run")
+  .description("Run a single prompt non-interactively and exit, e.g. from scripts or git hooks")
+  .argument("[prompt]", "Prompt to run, read from stdin when omitted or `-`")
+  .addOption(
+    new Option("-o, --output <format>", "Output format of the result")
+      .default("text", "Final response as plain text")
+      .choices(["text", "json"])
+  )
+  .option("-y, --yes", "Approve file writes, edits and commands without asking")
+  .option("--stdin", "Append stdin to the prompt argument")
+  .action(async (promptArg: string | undefined, runOptions) => {
+    const prompt = await resolvePrompt(promptArg, runOptions.stdin);
+    if (!prompt) {
+      console.error("Error: No prompt given. Pass it as an argument or pipe it through stdin.");
+      process.exit(RUN_EXIT_CODES.USAGE);
+    }
+
+    const { mode, provider, model } = cliApp.opts();
+    const exitCode = await runPrompt(prompt, { mode, provider, model, output: runOptions.output, yes: runOptions.yes });
+    process.exit(exitCode);
+  });
+
+const serveCommand = new Command()
+  .command("serve")
+  .description("Serve sessions over JSON-RPC for editor integrations")
+  .option("--stdio", "Use newline delimited JSON-RPC messages on stdin/stdout")
+  .action(async ({ stdio }) => {
+    if (!stdio) {
+      console.error("Error: no transport given, only --stdio is supported.");
+      process.exit(RUN_EXIT_CODES.USAGE);
+    }
+
+    const { mode, provider, model } = cliApp.opts();
+    process.exit(await serveStdio({ agent: mode, provider, model }));
+  });
+
+const mcpServeCommand = new Command()
+  .command("mcp-serve")
+  .description("Publish the built-in tools as an MCP server over stdio, e.g. for other MCP-capable agents")
+  .action(async () => {
+    process.exit(await serveMcpStdio());
+  });
+
+const modelsCommand = new Command()
+  .command("models")
+  .description("Manage the models of the provider given with -p, e.g. installed Ollama models");
+
+modelsCommand
+  .command("list", { isDefault: true })
+  .description("List the models available on the provider")
+  .action(async () => {
+    const { provider } = cliApp.opts();
+    const client = getClient(await resolveConfig(provider));
+    if (!client.listModels) {
+      console.error(`Error: the ${provider} provider cannot list its models`);
+      process.exit(1);
+    }
+
+    try {
+      const models = await client.listModels();
+      console.log(models.length ? models.join("\n") : "No models installed.");
+      process.exit(0);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+modelsCommand
+  .command("pull")
+  .description("Download a model")
+  .argument("<model>", "Model name, e.g. llama3.1 or qwen2.5-coder:7b")
+  .action(async (model: string) => {
+    const { provider } = cliApp.opts();
+    const client = getClient(await resolveConfig(provider));
+    if (!client.pullModel) {
+      console.error(`Error: the ${provider} provider cannot pull models`);
+      process.exit(1);
+    }
+
+    const oraManager = new OraManager();
+    oraManager.start(`Pulling ${model}...`);
+    try {
+      await client.pullModel(model, ({ status, completed, total }) => {
+        const percent = completed && total ? ` ${Math.floor((completed / total) * 100)}%` : "";
+        oraManager.update(`Pulling ${model}: ${status}${percent}`);
+      });
+      oraManager.succeed(`Pulled ${model}`);
+      process.exit(0);
+    } catch (error: any) {
+      oraManager.fail(error.message);
+      process.exit(1);
+    }
+  });
+
+const sessionsCommand = new Command().command("sessions").description("Manage saved chat sessions of this project");
+
+sessionsCommand
+  .command("list", { isDefault: true })
+  .description("List saved sessions, most recent first")
+  .action(async () => {
+    printSessionList(await listSessions(process.cwd()));
+    process.exit(0);
+  });
+
+sessionsCommand
+  .command("show")
+  .description("Show the conversation of a session")
+  .argument("<id>", "Session id or unique id prefix")
+  .action(async (id: string) => {
+    try {
+      printSession(await loadSession(process.cwd(), id));
+      process.exit(0);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+sessionsCommand
+  .command("delete")
+  .description("Delete a session")
+  .argument("<id>", "Session id or unique id prefix")
+  .action(async (id: string) => {
+    try {
+      console.log(`Deleted session ${await deleteSession(process.cwd(), id)}`);
+      process.exit(0);
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 cliApp
   .name("codebro")
   .description("AI-powered code editing, project analysis tool and more !!!")
@@ -43,11 +386,63 @@ cliApp
       .choices(["coder", "prompter"])
   )
   .addOption(
-    new Option("-p, --provider <provider>", "LLM Provider")
-      .default("azure", "Azure OpenAI")
-      .choices(["azure", "openai", "openrouter", "gemini", "localLM"])
+    new Option(
+      "-p, --provider <provider>",
+      `LLM Provider (${CLIENT_PROVIDERS.join(", ")}) or a profile name from config.json`
+    ).default("azure", "Azure OpenAI")
   )
-  .addCommand(viewCommand);
+  .addOption(new Option("--model <model>", "Model to use, defaults to CODEBRO_MODEL or the provider default model"))
+  .addOption(new Option("-r, --resume <id>", "Resume a saved session (see `codebro sessions list`)"))
+  .addCommand(configCommand)
+  .addCommand(runCommand)
+  .addCommand(sessionsCommand)
+  .addCommand(modelsCommand)
+  .addCommand(serveCommand)
+  .addCommand(mcpServeCommand);
+
+function getTargetConfigPath(project?: boolean): string {
+  return project ? getProjectConfigPath(process.cwd()) : path.join(getConfigDir(), CONFIG_FILE_NAME);
+}
+
+/**
+ * Update the global or project config.json, returns the path of the updated file
+ */
+async function updateTargetConfig(
+  project: boolean | undefined,
+  update: (config: Partial<CodebroConfig>) => void
+): Promise<string> {
+  if (project) {
+    const configPath = getTargetConfigPath(project);
+    await updateConfigFile(configPath, update);
+    return configPath;
+  }
+
+  await updateGlobalConfigFile(update);
+  return getTargetConfigPath(project);
+}
+
+function parseEnvMapping(entries: string[]): Record<string, string> {
+  return Object.fromEntries(
+    entries.map(entry => {
+      const index = entry.indexOf("=");
+      if (index <= 0) {
+        throw new Error(`Invalid env mapping '${entry}', expected NAME=value`);
+      }
+
+      return [entry.slice(0, index), entry.slice(index + 1)];
+    })
+  );
+}
+
+async function runConfigAction(action: () => Promise<void>) {
+  try {
+    await action();
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
 
 cliApp.parse(process.argv);
 export const options: OptionValues = cliApp.opts();
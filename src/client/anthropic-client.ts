@@ -0,0 +1,348 @@
+import type OpenAI from "openai";
+
+import { type Message, getImageContent, getTextContent } from "@messages";
+
+import type { ChatClient, ChatRequest } from "./client.types";
+import { ChatClientError, parseRetryAfter } from "./retry";
+
+export const ANTHROPIC_BASE_URL = "https://api.anthropic.com";
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires an output limit on every request
+const DEFAULT_MAX_TOKENS = 8192;
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+}
+
+export interface AnthropicClientOptions {
+  apiKey: string;
+  baseURL?: string;
+  maxTokens?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Chat client for the Anthropic Messages API, translating internal messages to content blocks
+ * and responses (tool_use blocks, streaming events) back to the OpenAI format.
+ */
+export class AnthropicChatClient implements ChatClient {
+  readonly provider = "anthropic";
+  private baseURL: string;
+  private maxTokens: number;
+
+  constructor(private options: AnthropicClientOptions) {
+    this.baseURL = (options.baseURL || ANTHROPIC_BASE_URL).replace(/\/+$/, "");
+    this.maxTokens = options.maxTokens || DEFAULT_MAX_TOKENS;
+  }
+
+  async complete(request: ChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    const response = await this.post(request, false);
+    const message = (await response.json()) as AnthropicResponse;
+
+    const text = message.content
+      .filter(block => block.type === "text")
+      .map(block => block.text)
+      .join("");
+    const toolCalls = message.content
+      .filter(block => block.type === "tool_use")
+      .map(block => ({
+        id: block.id,
+        type: "function" as const,
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      }));
+
+    return {
+      id: message.id,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: message.model,
+      choices: [
+        {
+          index: 0,
+          logprobs: null,
+          finish_reason: toFinishReason(message.stop_reason),
+          message: {
+            role: "assistant",
+            content: text || null,
+            refusal: null,
+            ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+          },
+        },
+      ],
+      usage: toCompletionUsage(message.usage),
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    const response = await this.post(request, true);
+
+    let id = "";
+    let model = request.model;
+    const usage: AnthropicUsage = {};
+    // Content block index -> tool call index, OpenAI numbers tool calls on their own
+    const toolIndexes = new Map<number, number>();
+    const chunk = (
+      delta: OpenAI.Chat.ChatCompletionChunk.Choice.Delta,
+      finishReason: OpenAI.Chat.ChatCompletionChunk.Choice["finish_reason"] = null
+    ): OpenAI.Chat.ChatCompletionChunk => ({
+      id,
+      model,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    for await (const { event, data } of readServerSentEvents(response.body!)) {
+      switch (event) {
+        case "message_start":
+          id = data.message.id;
+          model = data.message.model || model;
+          Object.assign(usage, data.message.usage);
+          break;
+        case "content_block_start":
+          if (data.content_block.type === "tool_use") {
+            const index = toolIndexes.size;
+            toolIndexes.set(data.index, index);
+            yield chunk({
+              tool_calls: [
+                {
+                  index,
+                  id: data.content_block.id,
+                  type: "function",
+                  function: { name: data.content_block.name, arguments: "" },
+                },
+              ],
+            });
+          }
+          break;
+        case "content_block_delta":
+          if (data.delta.type === "text_delta") {
+            yield chunk({ content: data.delta.text });
+          } else if (data.delta.type === "input_json_delta" && toolIndexes.has(data.index)) {
+            yield chunk({
+              tool_calls: [{ index: toolIndexes.get(data.index)!, function: { arguments: data.delta.partial_json } }],
+            });
+          }
+          break;
+        case "message_delta":
+          Object.assign(usage, data.usage);
+          yield chunk({}, toFinishReason(data.delta?.stop_reason));
+          break;
+        case "message_stop":
+          yield { ...chunk({}), choices: [], usage: toCompletionUsage(usage) };
+          return;
+        case "error":
+          throw new Error(`Anthropic API error: ${data.error?.message || JSON.stringify(data)}`);
+      }
+    }
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const body = {
+      model: request.model,
+      max_tokens: this.maxTokens,
+      messages,
+      stream,
+      ...(system ? { system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(({ function: fn }) => ({
+              name: fn.name,
+              description: fn.description || "",
+              input_schema: fn.parameters || { type: "object", properties: {} },
+            })),
+          }
+        : {}),
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/v1/messages`, {
+        method: "POST",
+        headers: {
+          ...this.options.headers,
+          "content-type": "application/json",
+          "x-api-key": this.options.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error: any) {
+      throw new ChatClientError(`Failed to reach the Anthropic API at ${this.baseURL}: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).error?.message || text;
+      } catch {
+        // Not a JSON error body, keep the raw text
+      }
+      throw new ChatClientError(
+        `Anthropic API error ${response.status}: ${message}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response;
+  }
+
+  async supportsImages(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Translate internal messages: system messages become the system prompt, tool results become
+ * tool_result blocks of a user message and consecutive messages of the same role are merged.
+ */
+export function toAnthropicMessages(messages: Message[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const result: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage["role"], blocks: AnthropicContentBlock[]) => {
+    const last = result[result.length - 1];
+    if (last?.role !== role) {
+      if (blocks.length) {
+        result.push({ role, content: blocks });
+      }
+      return;
+    }
+
+    for (const block of blocks) {
+      // The agent stores an answer twice when it calls tools, once as text and once with the tool calls
+      const previous = last.content[last.content.length - 1];
+      if (block.type === "text" && previous?.type === "text" && previous.text === block.text) {
+        continue;
+      }
+      last.content.push(block);
+    }
+  };
+
+  for (const message of messages) {
+    const text = getTextContent(message.content);
+    switch (message.role) {
+      case "system":
+        if (text) {
+          system.push(text);
+        }
+        break;
+      case "assistant": {
+        const blocks: AnthropicContentBlock[] = text ? [{ type: "text", text }] : [];
+        for (const toolCall of message.tool_calls || []) {
+          blocks.push({
+            type: "tool_use",
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseArguments(toolCall.function.arguments),
+          });
+        }
+        append("assistant", blocks);
+        break;
+      }
+      case "tool":
+        append("user", [{ type: "tool_result", tool_use_id: message.tool_call_id || "", content: text }]);
+        break;
+      default: {
+        const images: AnthropicContentBlock[] = getImageContent(message.content).map(({ mimeType, data }) => ({
+          type: "image",
+          source: { type: "base64", media_type: mimeType, data },
+        }));
+        append("user", [...(text ? [{ type: "text" as const, text }] : []), ...images]);
+      }
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: result };
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<{ event: string; data: any }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : events.pop() || "";
+    for (const raw of events) {
+      const lines = raw.split(/\r?\n/);
+      const event =
+        lines
+          .find(line => line.startsWith("event:"))
+          ?.slice(6)
+          .trim() || "message";
+      const data = lines
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trim())
+        .join("\n");
+      if (data) {
+        yield { event, data: JSON.parse(data) };
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function toFinishReason(stopReason?: string | null): OpenAI.Chat.ChatCompletion.Choice["finish_reason"] {
+  switch (stopReason) {
+    case "tool_use":
+      return "tool_calls";
+    case "max_tokens":
+      return "length";
+    default:
+      return "stop";
+  }
+}
+
+function toCompletionUsage(usage: AnthropicUsage): OpenAI.CompletionUsage {
+  const cachedTokens = usage.cache_read_input_tokens || 0;
+  const promptTokens = (usage.input_tokens || 0) + cachedTokens + (usage.cache_creation_input_tokens || 0);
+  const completionTokens = usage.output_tokens || 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: cachedTokens },
+  };
+}
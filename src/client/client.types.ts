@@ -0,0 +1,56 @@
+import type OpenAI from "openai";
+
+import type { Message } from "@messages";
+
+export type ClientProvider = "azure" | "openai" | "openrouter" | "localLM" | "gemini" | "anthropic" | "ollama";
+
+/**
+ * A chat request in the internal message format, translated by each client for its provider
+ */
+export interface ChatRequest {
+  model: string;
+  messages: Message[];
+  tools?: OpenAI.Chat.ChatCompletionTool[];
+  temperature?: number;
+  /** Notified of retries and fallbacks to another backend */
+  onStatus?: (message: string) => void;
+}
+
+/**
+ * Provider agnostic chat client. OpenAI completion and chunk types are used as the common response format,
+ * clients of other APIs translate their responses into them.
+ */
+export interface ChatClient {
+  readonly provider: ClientProvider;
+
+  complete(request: ChatRequest): Promise<OpenAI.Chat.ChatCompletion>;
+
+  /**
+   * Stream the response, the last chunk carries the usage of the whole request and has no choices
+   */
+  stream(request: ChatRequest): AsyncIterable<OpenAI.Chat.ChatCompletionChunk>;
+
+  /**
+   * Whether the model supports native tool calls, agents fall back to prompt based tool calling otherwise.
+   * Clients without this method are assumed to support them.
+   */
+  supportsTools?(model: string): Promise<boolean>;
+
+  /**
+   * Whether the model accepts image content parts, used to warn before sending images to a text only model
+   */
+  supportsImages?(model: string): Promise<boolean>;
+
+  /**
+   * Models available on the provider, for providers able to list them
+   */
+  listModels?(): Promise<string[]>;
+
+  /**
+   * Download a model, for providers serving local models
+   */
+  pullModel?(
+    model: string,
+    onProgress?: (progress: { status: string; completed?: number; total?: number }) => void
+  ): Promise<void>;
+}
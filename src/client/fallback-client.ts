@@ -0,0 +1,170 @@
+import type OpenAI from "openai";
+
+import { getImageContent, removeImageParts } from "@messages";
+
+import type { ChatClient, ChatRequest } from "./client.types";
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions, withRetry } from "./retry";
+
+// A failed backend is tried last for this long, so each request does not wait for its retries again
+const FAILED_BACKEND_COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface ChatBackend {
+  client: ChatClient;
+  /** Model used on this backend, defaults to the requested model */
+  model?: string;
+}
+
+/**
+ * Chat client retrying failed requests with backoff, then failing over to the next backend in order.
+ * Requests carry the whole conversation, so another backend picks it up where the failed one stopped.
+ */
+export class FallbackChatClient implements ChatClient {
+  private failedAt = new Map<ChatBackend, number>();
+  private lastBackend?: ChatBackend;
+
+  constructor(
+    private backends: ChatBackend[],
+    private retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    if (!backends.length) {
+      throw new Error("Failed to create the chat client: no backend configured");
+    }
+  }
+
+  get provider() {
+    return this.backends[0]!.client.provider;
+  }
+
+  /**
+   * Responses carry the model of the backend that answered, as configured, so usage is priced with it
+   */
+  async complete(request: ChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    const { result, model } = await this.run(request, (client, backendRequest) => client.complete(backendRequest));
+    return { ...result, model };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    // Only the request and the first chunk are retried, a broken stream would repeat the streamed content
+    const {
+      result: { iterator, first },
+      model,
+    } = await this.run(request, async (client, backendRequest) => {
+      const iterator = client.stream(backendRequest)[Symbol.asyncIterator]();
+      return { iterator, first: await iterator.next() };
+    });
+
+    for (let result = first; !result.done; result = await iterator.next()) {
+      yield { ...result.value, model };
+    }
+  }
+
+  /**
+   * Native tool calls are only used when every backend supports them, prompt based tool calls work with all of them
+   */
+  async supportsTools(model: string): Promise<boolean> {
+    const supported = await Promise.all(
+      this.backends.map(backend =>
+        backend.client.supportsTools ? backend.client.supportsTools(backend.model || model) : true
+      )
+    );
+    return supported.every(Boolean);
+  }
+
+  /**
+   * Whether the backend tried first accepts images, the others get the messages without their images
+   */
+  async supportsImages(model: string): Promise<boolean> {
+    return this.supportsImagesOn(this.getBackends()[0]!, model);
+  }
+
+  /**
+   * Models of the primary backend
+   */
+  async listModels(): Promise<string[]> {
+    const { client } = this.backends[0]!;
+    if (!client.listModels) {
+      throw new Error(`Failed to list models: the ${client.provider} provider cannot list its models`);
+    }
+
+    return client.listModels();
+  }
+
+  private async run<T>(
+    request: ChatRequest,
+    call: (client: ChatClient, request: ChatRequest) => Promise<T>
+  ): Promise<{ result: T; model: string }> {
+    const backends = this.getBackends();
+    let lastError: unknown;
+
+    for (const [index, backend] of backends.entries()) {
+      const backendRequest = await this.toBackendRequest(backend, request);
+      try {
+        const result = await withRetry(
+          () => call(backend.client, backendRequest),
+          this.retryOptions,
+          (error, attempt, delayMs) =>
+            request.onStatus?.(
+              `${formatBackend(backend, request)} failed (${getErrorMessage(error)}), retrying in ${formatDelay(delayMs)} (${attempt}/${this.retryOptions.maxRetries})`
+            )
+        );
+        this.failedAt.delete(backend);
+        if (backend !== (this.lastBackend ?? this.backends[0])) {
+          request.onStatus?.(`Answered by ${formatBackend(backend, request)}`);
+        }
+        this.lastBackend = backend;
+        return { result, model: backendRequest.model };
+      } catch (error) {
+        lastError = error;
+        this.failedAt.set(backend, Date.now());
+        const next = backends[index + 1];
+        if (next) {
+          request.onStatus?.(
+            `${formatBackend(backend, request)} failed (${getErrorMessage(error)}), falling back to ${formatBackend(next, request)}`
+          );
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async toBackendRequest(backend: ChatBackend, request: ChatRequest): Promise<ChatRequest> {
+    const model = backend.model || request.model;
+    const hasImages = request.messages.some(message => getImageContent(message.content).length);
+    if (hasImages && !(await this.supportsImagesOn(backend, request.model))) {
+      request.onStatus?.(`${formatBackend(backend, request)} does not accept images, they are left out`);
+      return { ...request, model, messages: removeImageParts(request.messages) };
+    }
+
+    return { ...request, model };
+  }
+
+  private async supportsImagesOn(backend: ChatBackend, model: string): Promise<boolean> {
+    return backend.client.supportsImages
+      ? backend.client.supportsImages(backend.model || model).catch(() => false)
+      : false;
+  }
+
+  /**
+   * Backends in the configured order, the ones that failed recently last
+   */
+  private getBackends(): ChatBackend[] {
+    const now = Date.now();
+    const hasFailed = (backend: ChatBackend) =>
+      now - (this.failedAt.get(backend) ?? -Infinity) < FAILED_BACKEND_COOLDOWN_MS;
+
+    return [...this.backends.filter(backend => !hasFailed(backend)), ...this.backends.filter(hasFailed)];
+  }
+}
+
+function formatBackend(backend: ChatBackend, request: ChatRequest): string {
+  return `${backend.client.provider}/${backend.model || request.model}`;
+}
+
+function formatDelay(delayMs: number): string {
+  return delayMs < 1000 ? `${delayMs}ms` : `${Math.round(delayMs / 1000)}s`;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
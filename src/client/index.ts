@@ -1,48 +1,101 @@
+import chalk from "chalk";
 import OpenAI, { AzureOpenAI } from "openai";
 
-import type { Config } from "@configs";
+import type { CodebroConfig, Config } from "@configs";
+import { createConfig } from "@configs/configs";
 
-export type ClientProvider = "azure" | "openai" | "openrouter" | "localLM" | "gemini";
+import { AnthropicChatClient } from "./anthropic-client";
+import type { ChatClient } from "./client.types";
+import { type ChatBackend, FallbackChatClient } from "./fallback-client";
+import { OllamaChatClient } from "./ollama-client";
+import { OpenAIChatClient } from "./openai-client";
+import { DEFAULT_RETRY_OPTIONS } from "./retry";
 
-export function getClient(config: Config): OpenAI {
-  const { apiKey, baseURL, provider } = config;
+export * from "./client.types";
+export * from "./openai-client";
+export * from "./anthropic-client";
+export * from "./ollama-client";
+export * from "./retry";
+export * from "./fallback-client";
+
+// Retries are done by FallbackChatClient for every provider, the SDK would multiply them
+const MAX_SDK_RETRIES = 0;
+
+export function getClient(config: Config): ChatClient {
+  const { apiKey, baseURL, provider, headers } = config;
 
   switch (provider) {
+    case "anthropic":
+      return new AnthropicChatClient({ apiKey, baseURL, headers });
+    case "ollama":
+      return new OllamaChatClient(baseURL, headers);
     case "openai":
-      return new OpenAI({ apiKey });
+      return new OpenAIChatClient(
+        new OpenAI({ apiKey, baseURL: baseURL || undefined, defaultHeaders: headers, maxRetries: MAX_SDK_RETRIES }),
+        provider
+      );
     case "localLM":
-      return new OpenAI({ baseURL, apiKey: "Local LLM" });
+      return new OpenAIChatClient(
+        new OpenAI({ baseURL, apiKey: apiKey || "Local LLM", defaultHeaders: headers, maxRetries: MAX_SDK_RETRIES }),
+        provider
+      );
     case "openrouter":
-      return getOpenRouterClient(config);
+      return new OpenAIChatClient(getOpenRouterClient(config), provider);
     case "gemini":
-      return getGeminiClient(config);
+      return new OpenAIChatClient(getGeminiClient(config), provider);
     default:
-      return getAzureClient(config);
+      return new OpenAIChatClient(getAzureClient(config), "azure");
+  }
+}
+
+/**
+ * Client of the configured provider with retries, followed by the `fallbacks` of config.json.
+ * Fallbacks whose provider is not set up (e.g. missing API key) are skipped with a warning.
+ */
+export function createChatClient(
+  config: Config,
+  { retry, fallbacks = [], profiles = {} }: Partial<CodebroConfig>
+): ChatClient {
+  const backends: ChatBackend[] = [{ client: getClient(config) }];
+  for (const fallback of fallbacks) {
+    try {
+      const client = getClient(createConfig(fallback.provider, {}, profiles));
+      backends.push({ client, model: fallback.model || profiles[fallback.provider]?.model });
+    } catch (error: any) {
+      console.warn(chalk.yellow(`Skipping fallback ${fallback.provider}: ${error.message.replace(/^Error: /, "")}`));
+    }
   }
+
+  return new FallbackChatClient(backends, { ...DEFAULT_RETRY_OPTIONS, ...retry });
 }
 
-export function getOpenRouterClient({ apiKey, baseURL }: Config): OpenAI {
+export function getOpenRouterClient({ apiKey, baseURL, headers }: Config): OpenAI {
   return new OpenAI({
     apiKey,
     baseURL: baseURL || "https://openrouter.ai/api/v1",
+    maxRetries: MAX_SDK_RETRIES,
     defaultHeaders: {
       "HTTP-Referer": "https://github.com/rovndev/codebro",
       "X-Title": "Codebro",
+      ...headers,
     },
   });
 }
 
-export function getAzureClient({ apiKey, model: deployment, baseURL: endpoint }: Config): OpenAI {
-  const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2025-03-01-preview";
-  const options = { apiKey, deployment, apiVersion, endpoint };
+export function getAzureClient({ apiKey, baseURL: endpoint, headers, apiVersion: version }: Config): OpenAI {
+  const apiVersion = version || process.env.AZURE_OPENAI_API_VERSION || "2025-03-01-preview";
+  // No fixed deployment: the model of each request is used as deployment, so the model can be switched at runtime
+  const options = { apiKey, apiVersion, endpoint, defaultHeaders: headers, maxRetries: MAX_SDK_RETRIES };
 
   return new AzureOpenAI(options);
 }
 
-export function getGeminiClient({ apiKey }: Config): OpenAI {
-  const baseURL = process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com/v1beta/openai/";
+export function getGeminiClient({ apiKey, baseURL: configBaseURL, headers }: Config): OpenAI {
+  const baseURL = configBaseURL || "https://generativelanguage.googleapis.com/v1beta/openai/";
   return new OpenAI({
     apiKey,
     baseURL,
+    defaultHeaders: headers,
+    maxRetries: MAX_SDK_RETRIES,
   });
 }
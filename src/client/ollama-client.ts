@@ -0,0 +1,301 @@
+import type OpenAI from "openai";
+import { v4 as uuidv4 } from "uuid";
+
+import { type Message, getImageContent, getTextContent } from "@messages";
+
+import type { ChatClient, ChatRequest } from "./client.types";
+import { ChatClientError, parseRetryAfter } from "./retry";
+
+export const OLLAMA_BASE_URL = "http://127.0.0.1:11434";
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Base64 encoded images */
+  images?: string[];
+  tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[];
+  tool_name?: string;
+}
+
+interface OllamaModelInfo {
+  capabilities?: string[];
+  template?: string;
+}
+
+interface OllamaChatResponse {
+  model: string;
+  message?: OllamaMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export interface OllamaPullProgress {
+  status: string;
+  completed?: number;
+  total?: number;
+}
+
+/**
+ * Chat client for the Ollama HTTP API. Agents switch to prompt based tool calling for models without tool support.
+ */
+export class OllamaChatClient implements ChatClient {
+  readonly provider = "ollama";
+  private baseURL: string;
+  private modelInfo = new Map<string, Promise<OllamaModelInfo>>();
+
+  constructor(
+    baseURL?: string,
+    private headers: Record<string, string> = {}
+  ) {
+    this.baseURL = (baseURL || OLLAMA_BASE_URL).replace(/\/+$/, "");
+  }
+
+  async complete(request: ChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    const response = await this.post("/api/chat", this.createChatBody(request, false));
+    const data = (await response.json()) as OllamaChatResponse;
+    const { content, toolCalls } = this.readMessage(data.message);
+
+    return {
+      id: `ollama-${uuidv4().slice(0, 8)}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: data.model,
+      choices: [
+        {
+          index: 0,
+          logprobs: null,
+          finish_reason: toolCalls.length ? "tool_calls" : data.done_reason === "length" ? "length" : "stop",
+          message: {
+            role: "assistant",
+            content: content || null,
+            refusal: null,
+            ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+          },
+        },
+      ],
+      usage: toCompletionUsage(data),
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    const response = await this.post("/api/chat", this.createChatBody(request, true));
+
+    const id = `ollama-${uuidv4().slice(0, 8)}`;
+    const chunk = (
+      delta: OpenAI.Chat.ChatCompletionChunk.Choice.Delta,
+      finishReason: OpenAI.Chat.ChatCompletionChunk.Choice["finish_reason"] = null
+    ): OpenAI.Chat.ChatCompletionChunk => ({
+      id,
+      model: request.model,
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+    let toolCallIndex = 0;
+    for await (const data of readJsonLines<OllamaChatResponse>(response.body!)) {
+      if (data.error) {
+        throw new Error(`Ollama error: ${data.error}`);
+      }
+
+      if (data.message) {
+        const { content, toolCalls } = this.readMessage(data.message);
+        if (content) {
+          yield chunk({ content });
+        }
+        if (toolCalls.length) {
+          yield chunk({
+            tool_calls: toolCalls.map(toolCall => ({ index: toolCallIndex++, ...toolCall })),
+          });
+        }
+      }
+
+      if (data.done) {
+        yield chunk({}, toolCallIndex ? "tool_calls" : data.done_reason === "length" ? "length" : "stop");
+        yield { ...chunk({}), choices: [], usage: toCompletionUsage(data) };
+        return;
+      }
+    }
+  }
+
+  /**
+   * Names of the installed models, e.g. "llama3.1:latest"
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.request("/api/tags", { method: "GET" });
+    const { models = [] } = (await response.json()) as { models?: { name: string }[] };
+
+    return models.map(model => model.name).sort();
+  }
+
+  async pullModel(model: string, onProgress?: (progress: OllamaPullProgress) => void): Promise<void> {
+    const response = await this.post("/api/pull", { model, stream: true });
+    for await (const progress of readJsonLines<OllamaPullProgress & { error?: string }>(response.body!)) {
+      if (progress.error) {
+        throw new Error(`Failed to pull ${model}: ${progress.error}`);
+      }
+      onProgress?.(progress);
+    }
+  }
+
+  /**
+   * Whether the model supports native tool calls, from its capabilities or its chat template on older servers
+   */
+  async supportsTools(model: string): Promise<boolean> {
+    const { capabilities, template } = await this.getModelInfo(model);
+    return capabilities ? capabilities.includes("tools") : Boolean(template?.includes(".Tools"));
+  }
+
+  /**
+   * Whether the model accepts images, older servers do not report capabilities
+   */
+  async supportsImages(model: string): Promise<boolean> {
+    const { capabilities } = await this.getModelInfo(model);
+    return Boolean(capabilities?.includes("vision"));
+  }
+
+  private getModelInfo(model: string): Promise<OllamaModelInfo> {
+    if (!this.modelInfo.has(model)) {
+      const info = this.post("/api/show", { model })
+        .then(response => response.json() as Promise<OllamaModelInfo>)
+        .catch(error => {
+          // Ask again next time, e.g. once the model is pulled
+          this.modelInfo.delete(model);
+          throw error;
+        });
+      this.modelInfo.set(model, info);
+    }
+
+    return this.modelInfo.get(model)!;
+  }
+
+  private createChatBody(request: ChatRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: toOllamaMessages(request.messages),
+      stream,
+      ...(request.tools?.length ? { tools: request.tools } : {}),
+      ...(request.temperature !== undefined ? { options: { temperature: request.temperature } } : {}),
+    };
+  }
+
+  private readMessage(message?: OllamaMessage): {
+    content: string;
+    toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[];
+  } {
+    const toolCalls = (message?.tool_calls || []).map(toolCall => ({
+      id: `call_${uuidv4().slice(0, 8)}`,
+      type: "function" as const,
+      function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments ?? {}) },
+    }));
+
+    return { content: message?.content || "", toolCalls };
+  }
+
+  private post(pathname: string, body: unknown): Promise<Response> {
+    return this.request(pathname, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  private async request(pathname: string, init: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}${pathname}`, { ...init, headers: { ...this.headers, ...init.headers } });
+    } catch (error: any) {
+      throw new ChatClientError(`Failed to reach Ollama at ${this.baseURL}, is it running? ${error.message}`);
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).error || text;
+      } catch {
+        // Not a JSON error body, keep the raw text
+      }
+      const hint = response.status === 404 ? ", pull it with `codebro -p ollama models pull <model>`" : "";
+      throw new ChatClientError(
+        `Ollama error ${response.status}: ${message}${hint}`,
+        response.status,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    return response;
+  }
+}
+
+function toOllamaMessages(messages: Message[]): OllamaMessage[] {
+  // Ollama identifies tool results by tool name rather than call id
+  const toolNames = new Map<string, string>();
+
+  return messages.map(message => {
+    const content = getTextContent(message.content);
+    if (message.role === "assistant" && message.tool_calls?.length) {
+      return {
+        role: "assistant",
+        content,
+        tool_calls: message.tool_calls.map(toolCall => {
+          toolNames.set(toolCall.id, toolCall.function.name);
+          return { function: { name: toolCall.function.name, arguments: parseArguments(toolCall.function.arguments) } };
+        }),
+      };
+    }
+
+    if (message.role === "tool") {
+      return { role: "tool", content, tool_name: toolNames.get(message.tool_call_id || "") };
+    }
+
+    const images = getImageContent(message.content).map(({ data }) => data);
+    return {
+      role: message.role === "function" ? "user" : message.role,
+      content,
+      ...(images.length ? { images } : {}),
+    };
+  });
+}
+
+async function* readJsonLines<T>(body: ReadableStream<Uint8Array>): AsyncIterable<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line) as T;
+      }
+    }
+
+    if (done) {
+      return;
+    }
+  }
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function toCompletionUsage({ prompt_eval_count = 0, eval_count = 0 }: OllamaChatResponse): OpenAI.CompletionUsage {
+  return {
+    prompt_tokens: prompt_eval_count,
+    completion_tokens: eval_count,
+    total_tokens: prompt_eval_count + eval_count,
+  };
+}
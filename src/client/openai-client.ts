@@ -0,0 +1,44 @@
+import type OpenAI from "openai";
+
+import type { ChatClient, ChatRequest, ClientProvider } from "./client.types";
+
+// OpenAI compatible APIs do not report capabilities, vision models are recognized by name
+const VISION_MODEL_REGEX =
+  /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|chatgpt|\bo[134]\b|claude|gemini|vision|llava|pixtral|-vl\b|vl-/i;
+
+/**
+ * Chat client for OpenAI compatible APIs (OpenAI, Azure OpenAI, OpenRouter, Gemini, local LLM servers)
+ */
+export class OpenAIChatClient implements ChatClient {
+  constructor(
+    private client: OpenAI,
+    readonly provider: ClientProvider
+  ) {}
+
+  async complete({ model, messages, tools, temperature }: ChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    return this.client.chat.completions.create({
+      model,
+      messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+      tools,
+      temperature,
+      stream: false,
+    });
+  }
+
+  async *stream({ model, messages, tools, temperature }: ChatRequest): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    const stream = await this.client.chat.completions.create({
+      model,
+      messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+      tools,
+      temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    yield* stream;
+  }
+
+  async supportsImages(model: string): Promise<boolean> {
+    return VISION_MODEL_REGEX.test(model);
+  }
+}
@@ -0,0 +1,110 @@
+import OpenAI from "openai";
+
+export interface RetryOptions {
+  /** Retries of a failed request on the same backend, 0 disables retrying */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on each retry */
+  initialDelayMs: number;
+  /** Longest delay, a longer Retry-After fails the request instead of waiting */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Error of a provider API, status is undefined when the provider could not be reached
+ */
+export class ChatClientError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ChatClientError";
+  }
+}
+
+/**
+ * Rate limits, timeouts, server errors and connection failures are worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+
+  if (error instanceof OpenAI.APIError || error instanceof ChatClientError) {
+    const { status } = error;
+    return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  return false;
+}
+
+/**
+ * Delay requested by the provider with a Retry-After (or retry-after-ms) header
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (error instanceof ChatClientError) {
+    return error.retryAfterMs;
+  }
+
+  if (error instanceof OpenAI.APIError && error.headers) {
+    const headers = error.headers as Record<string, string | undefined>;
+    const retryAfterMs = Number(headers["retry-after-ms"]);
+    return Number.isFinite(retryAfterMs) && retryAfterMs >= 0 ? retryAfterMs : parseRetryAfter(headers["retry-after"]);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Run a request, retrying retryable errors with exponential backoff
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: RetryOptions,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+        throw error;
+      }
+
+      // Jitter avoids retrying in lockstep with other clients hitting the same rate limit
+      const backoffMs = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** (attempt - 1));
+      const delayMs = retryAfterMs ?? Math.round(backoffMs * (0.5 + Math.random() / 2));
+      onRetry?.(error, attempt, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import chalk, { type ChalkInstance } from "chalk";
+
+import type { AgentMode } from "@agents/agents.types";
+import { printCheckpoints } from "@checkpoints";
+import { printConfigDetails } from "@configs";
+import type { McpServerState } from "@mcp";
+import { createUserMessage, isImagePath, loadImage } from "@messages";
+import { createSession, printMessages, saveSession } from "@sessions";
+import { printUsageReport } from "@usage";
+import { displayHelp } from "@utils";
+
+import type { SlashCommand, SlashCommandContext } from "./commands.types";
+import { completePaths } from "./path-completion";
+
+const AGENT_MODES: AgentMode[] = ["PLAN", "EXECUTE"];
+
+const HISTORY_DEFAULT_COUNT = 20;
+
+export const helpCommand: SlashCommand = {
+  name: "help",
+  aliases: ["?"],
+  description: "Show available commands",
+  async run(_, { registry }) {
+    displayHelp(registry.list());
+  },
+};
+
+export const exitCommand: SlashCommand = {
+  name: "exit",
+  aliases: ["quit", "bye"],
+  description: "Exit the application",
+  async run() {
+    return { exit: true };
+  },
+};
+
+export const clearCommand: SlashCommand = {
+  name: "clear",
+  description: "Clear the conversation and start a new session, the current one stays resumable",
+  async run(_, context) {
+    const { agent, session, oraManager } = context;
+    const agentContext = agent.getContext();
+
+    agent.clearHistory();
+    agentContext.usage.restore();
+    context.session = createSession(agent, { agentType: session.agent, provider: session.provider });
+    agentContext.checkpoints.attach(context.session.id);
+
+    oraManager.start("Clearing...");
+    oraManager.succeed(`Conversation cleared, new session ${context.session.id}`);
+  },
+};
+
+export const modeCommand: SlashCommand = {
+  name: "mode",
+  usage: "[plan|execute]",
+  description: "Show or switch the agent mode",
+  async run(args, { agent, oraManager }) {
+    const mode = args.toUpperCase() as AgentMode;
+    if (!args) {
+      console.log(`Current mode: ${chalk.blue(agent.getMode())}`);
+      return;
+    }
+
+    oraManager.start("Switching mode...");
+    if (!AGENT_MODES.includes(mode)) {
+      oraManager.fail(`Invalid mode '${args}'. Must be one of: ${AGENT_MODES.join(", ").toLowerCase()}`);
+      return;
+    }
+
+    agent.setMode(mode);
+    oraManager.succeed(`Switched agent mode to '${mode}'`);
+  },
+  complete() {
+    return AGENT_MODES.map(mode => mode.toLowerCase());
+  },
+};
+
+export const modelCommand: SlashCommand = {
+  name: "model",
+  usage: "[name]",
+  description: "Show or switch the model",
+  async run(args, { agent, oraManager }) {
+    const routedModel = agent.getRoutedModel();
+    const mode = agent.getMode().toLowerCase();
+    if (!args) {
+      console.log(`Current model: ${chalk.blue(agent.getModel())}`);
+      if (routedModel) {
+        console.log(chalk.dim(`Routed to ${mode} mode by config.json, default model: ${agent.getContext().model}`));
+      }
+      return;
+    }
+
+    oraManager.start("Switching model...");
+    agent.setModel(args);
+    oraManager.succeed(`Switched model to '${args}'`);
+    if (routedModel && routedModel !== args) {
+      console.log(chalk.yellow(`The ${mode} mode keeps using '${routedModel}' from routing.modes in config.json`));
+    }
+  },
+  complete(_, { agent }) {
+    const { config, availableModels = [] } = agent.getContext();
+    return [...new Set([...Object.keys(config.models || {}), ...availableModels])];
+  },
+};
+
+export const toolsCommand: SlashCommand = {
+  name: "tools",
+  description: "List the tools available to the agent",
+  async run(_, { agent }) {
+    for (const tool of agent.getAvailableTools()) {
+      const { name, description = "" } = tool.getDefinition().function;
+      const summary = description.trim().split("\n")[0] || "";
+      console.log(
+        `${chalk.blue(name)}${tool.isMCPTool ? chalk.dim(" [mcp]") : ""}  ${chalk.dim(summary.length > 100 ? `${summary.slice(0, 97)}...` : summary)}`
+      );
+    }
+  },
+};
+
+const MCP_STATE_COLORS: Record<McpServerState, ChalkInstance> = {
+  idle: chalk.dim,
+  disabled: chalk.dim,
+  connecting: chalk.yellow,
+  connected: chalk.green,
+  disconnected: chalk.yellow,
+  failed: chalk.red,
+};
+
+export const mcpCommand: SlashCommand = {
+  name: "mcp",
+  usage: "[resources]",
+  description: "Show the status, tool count and last error of each MCP server, or list their resources",
+  async run(args, { agent, oraManager }) {
+    const { mcp } = agent.getContext();
+    if (args === "resources") {
+      oraManager.start("Listing MCP resources...");
+      const resources = (await mcp?.listResources()) || [];
+      oraManager.stop();
+      if (!resources.length) {
+        console.log(chalk.yellow("No MCP resources available."));
+        return;
+      }
+
+      for (const { server, name, uri, description } of resources) {
+        const mention = `@${server}:${/\s/.test(name) ? uri : name}`;
+        console.log(`${chalk.blue(mention)}  ${chalk.dim(uri)}${description ? `  ${description}` : ""}`);
+      }
+      console.log(chalk.dim("Mention a resource in a message to attach it, by name or uri."));
+      return;
+    }
+
+    const servers = mcp?.getStatus() || [];
+    if (!servers.length) {
+      console.log(chalk.yellow("No MCP servers configured, add one with `codebro config mcp add <name> <command>`."));
+      return;
+    }
+
+    for (const { name, state, target, toolCount, error } of servers) {
+      console.log(`${chalk.blue(name)}  ${MCP_STATE_COLORS[state](state)}  ${chalk.dim(`${toolCount} tools`)}`);
+      console.log(chalk.dim(`    ${target}`));
+      if (error) {
+        console.log(chalk.red(`    error: ${error}`));
+      }
+    }
+    console.log(
+      chalk.dim("Idle servers start on their first tool call, disconnected ones reconnect on the next call.")
+    );
+  },
+  complete() {
+    return ["resources"];
+  },
+};
+
+export const imageCommand: SlashCommand = {
+  name: "image",
+  usage: "<path> [message]",
+  description: "Attach an image to a message, without a message it is sent with the next one",
+  async run(args, context) {
+    const { agent, oraManager } = context;
+    const [, filePath, message] = args.match(/^(\S+)\s*([\s\S]*)$/) || [];
+    oraManager.start("Attaching image...");
+    if (!filePath) {
+      oraManager.fail("Usage: /image <path> [message]");
+      return;
+    }
+
+    try {
+      const image = await loadImage(filePath, agent.getContext().workingDirectory);
+      if (message) {
+        oraManager.stop();
+        return { prompt: message, chatOptions: { images: [image] } };
+      }
+
+      context.pendingImages = [...(context.pendingImages || []), image];
+      oraManager.succeed(`Attached ${filePath}, it is sent with your next message`);
+    } catch (error: any) {
+      oraManager.fail(error.message);
+    }
+  },
+  complete(args, { agent }) {
+    return completePaths(
+      args,
+      agent.getContext().workingDirectory,
+      candidate => candidate.endsWith("/") || isImagePath(candidate)
+    );
+  },
+};
+
+export const historyCommand: SlashCommand = {
+  name: "history",
+  usage: "[count]",
+  description: `Show the last messages of the conversation (default ${HISTORY_DEFAULT_COUNT})`,
+  async run(args, { agent }) {
+    const count = Number(args) || HISTORY_DEFAULT_COUNT;
+    const messages = agent.getMessages().filter(message => message.role !== "system");
+    if (!messages.length) {
+      console.log(chalk.yellow("No messages yet."));
+      return;
+    }
+
+    printMessages(messages.slice(-count));
+  },
+};
+
+export const configCommand: SlashCommand = {
+  name: "config",
+  description: "Show the current configuration",
+  async run(_, { agent }) {
+    printConfigDetails(agent.getContext());
+  },
+};
+
+export const compactCommand: SlashCommand = {
+  name: "compact",
+  usage: "[instructions]",
+  description: "Summarize older messages to free up context",
+  async run(args, context) {
+    await context.agent.compact(context.oraManager, args || undefined).catch(() => undefined);
+    await persistSession(context);
+  },
+};
+
+export const costCommand: SlashCommand = {
+  name: "cost",
+  description: "Show token usage and cost of the last message and the session",
+  async run(_, { agent }) {
+    printUsageReport(agent.getContext().usage);
+  },
+};
+
+export const checkpointsCommand: SlashCommand = {
+  name: "checkpoints",
+  description: "List file checkpoints, one per message that changed files",
+  async run(_, { agent }) {
+    printCheckpoints(await agent.getContext().checkpoints.list());
+  },
+};
+
+export const undoCommand: SlashCommand = {
+  name: "undo",
+  description: "Roll back the files changed by the latest checkpoint",
+  async run(_, context) {
+    try {
+      const { files } = await context.agent.getContext().checkpoints.undo();
+      await reportRestoredFiles(files, context);
+    } catch (error: any) {
+      context.oraManager.start("Undoing...");
+      context.oraManager.fail(error.message);
+    }
+  },
+};
+
+export const restoreCommand: SlashCommand = {
+  name: "restore",
+  usage: "<n>",
+  description: "Roll back all files changed since checkpoint n",
+  async run(args, context) {
+    context.oraManager.start("Restoring...");
+    const id = Number(args);
+    if (!args || !Number.isInteger(id)) {
+      context.oraManager.fail("Usage: /restore <checkpoint number>, see /checkpoints");
+      return;
+    }
+
+    try {
+      const files = await context.agent.getContext().checkpoints.restore(id);
+      await reportRestoredFiles(files, context);
+    } catch (error: any) {
+      context.oraManager.fail(error.message);
+    }
+  },
+};
+
+/**
+ * Built-in commands of the chat loop
+ */
+export function getBuiltinCommands(): SlashCommand[] {
+  return [
+    helpCommand,
+    clearCommand,
+    modeCommand,
+    modelCommand,
+    toolsCommand,
+    mcpCommand,
+    imageCommand,
+    historyCommand,
+    configCommand,
+    compactCommand,
+    costCommand,
+    checkpointsCommand,
+    undoCommand,
+    restoreCommand,
+    exitCommand,
+  ];
+}
+
+async function reportRestoredFiles(files: string[], context: SlashCommandContext) {
+  const { agent, oraManager } = context;
+  oraManager.start("Restoring...");
+  if (!files.length) {
+    oraManager.succeed("Nothing to undo");
+    return;
+  }
+
+  // Let the model know its earlier changes are gone
+  agent.pushMessage(
+    createUserMessage(`Note: the user rolled back your changes, these files were restored: ${files.join(", ")}`)
+  );
+  await persistSession(context);
+  oraManager.succeed(`Restored ${files.length} file(s):\n${files.map(file => `  ${file}`).join("\n")}`);
+}
+
+async function persistSession({ session, agent }: SlashCommandContext) {
+  await saveSession(session, agent).catch(error => console.error(chalk.red(error.message)));
+}
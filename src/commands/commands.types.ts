@@ -0,0 +1,66 @@
+import type { AgentMode, ChatOptions } from "@agents/agents.types";
+import type { BaseAgent } from "@agents/base-agent";
+import type { MessageImage } from "@messages";
+import type { Session } from "@sessions";
+import type { OraManager } from "@utils/ora-manager";
+
+import type * as readline from "node:readline/promises";
+
+import type { SlashCommandRegistry } from "./registry";
+
+/**
+ * State of the chat loop shared with slash commands, commands may replace the session (e.g. /clear)
+ */
+export interface SlashCommandContext {
+  agent: BaseAgent;
+  session: Session;
+  terminal: readline.Interface;
+  oraManager: OraManager;
+  registry: SlashCommandRegistry;
+  /** Images attached with /image, sent with the next message */
+  pendingImages?: MessageImage[];
+}
+
+export interface SlashCommandResult {
+  /** Leave the chat loop */
+  exit?: boolean;
+  /** Send a prompt to the agent as if the user typed it */
+  prompt?: string;
+  /** Overrides applied while the agent answers the prompt */
+  chatOptions?: ChatOptions;
+}
+
+/**
+ * A command typed in the chat loop as `/name [args]`
+ */
+export interface SlashCommand {
+  name: string;
+  aliases?: string[];
+  description: string;
+  /** Arguments shown in /help, e.g. "[instructions]" */
+  usage?: string;
+
+  run(args: string, context: SlashCommandContext): Promise<SlashCommandResult | void>;
+
+  /**
+   * Candidates for the argument being typed, used for tab completion
+   */
+  complete?(args: string, context: SlashCommandContext): string[];
+}
+
+/**
+ * Where a custom command file was found, project commands override user ones with the same name
+ */
+export type CustomCommandSource = "user" | "project";
+
+/**
+ * Optional front-matter of a custom command file
+ */
+export interface CustomCommandFrontMatter {
+  description?: string;
+  /** Arguments shown in /help, e.g. "<file>" */
+  argumentHint?: string;
+  mode?: AgentMode;
+  model?: string;
+  allowedTools?: string[];
+}
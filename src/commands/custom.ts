@@ -0,0 +1,163 @@
+import chalk from "chalk";
+
+import type { AgentMode } from "@agents/agents.types";
+import { CONFIG_COMMANDS_DIR_NAME, PROJECT_CONFIG_DIR_NAME, getConfigDir } from "@configs/global";
+
+import { existsSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { CustomCommandFrontMatter, CustomCommandSource, SlashCommand } from "./commands.types";
+
+export const PROJECT_COMMANDS_DIR = path.join(PROJECT_CONFIG_DIR_NAME, CONFIG_COMMANDS_DIR_NAME);
+
+const ARGUMENTS_PLACEHOLDER = "$ARGUMENTS";
+
+const AGENT_MODES: AgentMode[] = ["PLAN", "EXECUTE"];
+
+/**
+ * Load markdown prompt files as slash commands, from `<configDir>/commands` and `.codebro/commands`.
+ * `review.md` becomes `/review`, files in sub-folders are namespaced, e.g. `git/commit.md` becomes `/git:commit`.
+ */
+export async function loadCustomCommands(workingDirectory: string): Promise<SlashCommand[]> {
+  const sources: [CustomCommandSource, string][] = [
+    ["user", path.join(getConfigDir(), CONFIG_COMMANDS_DIR_NAME)],
+    ["project", path.join(workingDirectory, PROJECT_COMMANDS_DIR)],
+  ];
+
+  const commands = new Map<string, SlashCommand>();
+  for (const [source, dir] of sources) {
+    for (const filePath of await findMarkdownFiles(dir)) {
+      const name = path.relative(dir, filePath).replace(/\.md$/i, "").split(path.sep).join(":").replace(/\s+/g, "-");
+
+      try {
+        const content = await fs.readFile(filePath, "utf-8");
+        commands.set(name, createCustomCommand(name, source, content));
+      } catch (error: any) {
+        console.warn(chalk.yellow(`Failed to load custom command ${filePath}: ${error.message}`));
+      }
+    }
+  }
+
+  return [...commands.values()];
+}
+
+/**
+ * Build a slash command sending the file body as prompt, `$ARGUMENTS` is replaced by what follows the command
+ */
+export function createCustomCommand(name: string, source: CustomCommandSource, content: string): SlashCommand {
+  const { frontMatter, body } = parseFrontMatter(content);
+  const firstLine = body.trim().split("\n")[0] || "";
+  const summary = firstLine.replace(/^#+\s*/, "");
+  const description = frontMatter.description || (summary.length > 60 ? `${summary.slice(0, 57)}...` : summary);
+
+  return {
+    name,
+    description: `${description} (${source})`,
+    usage: frontMatter.argumentHint,
+    async run(args, { agent }) {
+      const { mode, model, allowedTools } = frontMatter;
+      if (allowedTools) {
+        const available = agent.getAvailableTools().map(tool => tool.getDefinition().function.name);
+        const unknown = allowedTools.filter(tool => !available.includes(tool));
+        if (unknown.length) {
+          console.warn(chalk.yellow(`/${name}: unknown tools in allowedTools: ${unknown.join(", ")}`));
+        }
+      }
+
+      return { prompt: renderPrompt(body, args), chatOptions: { mode, model, allowedTools } };
+    },
+  };
+}
+
+export function renderPrompt(body: string, args: string): string {
+  const prompt = body.trim();
+  if (prompt.includes(ARGUMENTS_PLACEHOLDER)) {
+    return prompt.split(ARGUMENTS_PLACEHOLDER).join(args);
+  }
+
+  return args ? `${prompt}\n\n${args}` : prompt;
+}
+
+/**
+ * Parse the `---` delimited front-matter of a command file. Only flat `key: value` pairs are supported,
+ * lists are written `[a, b]`, `a, b` or as `- a` lines. Keys may be kebab-case, e.g. `allowed-tools`.
+ */
+export function parseFrontMatter(content: string): { frontMatter: CustomCommandFrontMatter; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    return { frontMatter: {}, body: content };
+  }
+
+  const values: Record<string, string | string[]> = {};
+  let listKey: string | undefined;
+  for (const line of (match[1] || "").split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (values[listKey] as string[]).push(unquote(item[1] || ""));
+      continue;
+    }
+
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) {
+      continue;
+    }
+
+    const key = (pair[1] || "").replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+    const value = (pair[2] || "").trim();
+    listKey = value ? undefined : key;
+    values[key] = value ? unquote(value) : [];
+  }
+
+  const frontMatter: CustomCommandFrontMatter = {};
+  if (typeof values.description === "string") {
+    frontMatter.description = values.description;
+  }
+  if (typeof values.argumentHint === "string") {
+    frontMatter.argumentHint = values.argumentHint;
+  }
+  if (typeof values.model === "string" && values.model) {
+    frontMatter.model = values.model;
+  }
+  if (typeof values.mode === "string") {
+    const mode = values.mode.toUpperCase() as AgentMode;
+    if (AGENT_MODES.includes(mode)) {
+      frontMatter.mode = mode;
+    } else {
+      console.warn(chalk.yellow(`Ignoring invalid mode '${values.mode}', must be one of: ${AGENT_MODES.join(", ")}`));
+    }
+  }
+  if (values.allowedTools !== undefined) {
+    frontMatter.allowedTools = toList(values.allowedTools);
+  }
+
+  return { frontMatter, body: match[2] || "" };
+}
+
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdownFiles(entryPath)));
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith(".md")) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+function toList(value: string | string[]): string[] {
+  const items = Array.isArray(value) ? value : value.replace(/^\[|\]$/g, "").split(",");
+  return items.map(item => unquote(item.trim())).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(["'])(.*)\1$/, "$2");
+}
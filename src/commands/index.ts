@@ -0,0 +1,5 @@
+export * from "./commands.types";
+export * from "./registry";
+export * from "./builtins";
+export * from "./custom";
+export * from "./mcp-prompts";
@@ -0,0 +1,51 @@
+import type { McpManager } from "@mcp";
+
+import type { SlashCommand } from "./commands.types";
+
+/**
+ * Expose the prompts of MCP servers as `/server:prompt` commands, missing arguments are asked for one by one
+ */
+export function getMcpPromptCommands(mcp?: McpManager): SlashCommand[] {
+  return (mcp?.getPrompts() || []).map(({ server, prompt }) => {
+    const promptArgs = prompt.arguments || [];
+
+    return {
+      name: `${server}:${prompt.name}`,
+      description: `${prompt.description || `${prompt.name} prompt`} (mcp)`,
+      usage: promptArgs.map(({ name, required }) => (required ? `<${name}>` : `[${name}]`)).join(" ") || undefined,
+      async run(args, { terminal, oraManager }) {
+        // A single argument can be given inline, e.g. `/github:review 42`
+        const values: Record<string, string> = {};
+        if (promptArgs.length === 1 && args) {
+          values[promptArgs[0]!.name] = args;
+        }
+
+        for (const { name, description, required } of promptArgs) {
+          if (values[name]) {
+            continue;
+          }
+
+          const hint = [description, required ? "" : "optional"].filter(Boolean).join(", ");
+          const value = (await terminal.question(`${name}${hint ? ` (${hint})` : ""}: `)).trim();
+          if (!value && required) {
+            oraManager.start("");
+            oraManager.fail(`Missing required argument ${name} of /${server}:${prompt.name}`);
+            return;
+          }
+          if (value) {
+            values[name] = value;
+          }
+        }
+
+        oraManager.start(`Getting prompt ${prompt.name} from MCP ${server}...`);
+        try {
+          const text = await mcp!.getPrompt(server, prompt.name, values);
+          oraManager.stop();
+          return { prompt: text };
+        } catch (error: any) {
+          oraManager.fail(`Failed to get prompt ${prompt.name} from MCP ${server}: ${error.message}`);
+        }
+      },
+    };
+  });
+}
@@ -0,0 +1,48 @@
+import { isIgnoredPath } from "@filesystem";
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Entries of the directory being typed for tab completion, directories end with `/` so completion can go deeper.
+ * Hidden entries are only listed once a `.` is typed.
+ */
+export function completePaths(
+  partial: string,
+  workingDirectory: string,
+  include: (candidate: string) => boolean = () => true
+): string[] {
+  const directory = partial.endsWith("/") ? partial : path.dirname(partial) === "." ? "" : `${path.dirname(partial)}/`;
+  const showHidden = path.basename(partial).startsWith(".");
+
+  try {
+    return fs
+      .readdirSync(path.resolve(workingDirectory, directory || "."), { withFileTypes: true })
+      .filter(entry => showHidden || !entry.name.startsWith("."))
+      .map(entry => `${directory}${entry.name}${entry.isDirectory() ? "/" : ""}`)
+      .filter(include)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete the `@path` mention at the end of a chat message, ignored files are not offered
+ */
+export function completeFileMention(
+  line: string,
+  workingDirectory: string,
+  ignoreFiles: string[] = []
+): [string[], string] {
+  const partial = line.match(/(?:^|\s)@([^\s@]*)$/)?.[1];
+  if (partial === undefined) {
+    return [[], line];
+  }
+
+  const candidates = completePaths(partial, workingDirectory, candidate => !isIgnoredPath(candidate, ignoreFiles));
+  return [
+    candidates.filter(candidate => candidate.startsWith(partial)).map(candidate => `@${candidate}`),
+    `@${partial}`,
+  ];
+}
@@ -0,0 +1,67 @@
+import type { SlashCommand, SlashCommandContext } from "./commands.types";
+import { completeFileMention } from "./path-completion";
+
+export const COMMAND_PREFIX = "/";
+
+/**
+ * Registry of the slash commands available in the chat loop
+ */
+export class SlashCommandRegistry {
+  private commands = new Map<string, SlashCommand>();
+
+  register(...commands: SlashCommand[]): this {
+    for (const command of commands) {
+      this.commands.set(command.name, command);
+    }
+
+    return this;
+  }
+
+  unregister(name: string): void {
+    this.commands.delete(name);
+  }
+
+  find(name: string): SlashCommand | undefined {
+    return this.commands.get(name) || this.list().find(command => command.aliases?.includes(name));
+  }
+
+  list(): SlashCommand[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Split user input into command name and arguments, undefined when the input is not a command.
+   * Inputs like `/usr/local/bin is missing` are treated as regular messages.
+   */
+  parse(input: string): { name: string; args: string } | undefined {
+    const match = input.trim().match(/^\/([^\s/]+)(?:\s+([\s\S]*))?$/);
+    if (!match?.[1]) {
+      return undefined;
+    }
+
+    return { name: match[1], args: (match[2] || "").trim() };
+  }
+
+  /**
+   * Readline completer: command names first, then the arguments of the command, `@path` mentions in messages
+   */
+  complete(line: string, context: SlashCommandContext): [string[], string] {
+    if (!line.startsWith(COMMAND_PREFIX)) {
+      const { workingDirectory, config } = context.agent.getContext();
+      return completeFileMention(line, workingDirectory, config.ignoreFiles);
+    }
+
+    const spaceIndex = line.indexOf(" ");
+    if (spaceIndex === -1) {
+      const names = this.list().flatMap(command => [command.name, ...(command.aliases || [])]);
+      const hits = names.map(name => `${COMMAND_PREFIX}${name}`).filter(name => name.startsWith(line));
+      return [hits.sort(), line];
+    }
+
+    const command = this.find(line.slice(COMMAND_PREFIX.length, spaceIndex));
+    const args = line.slice(spaceIndex + 1);
+    const candidates = command?.complete?.(args, context) || [];
+
+    return [candidates.filter(candidate => candidate.startsWith(args)), args];
+  }
+}
@@ -7,25 +7,38 @@ import process from "node:process";
 // Load environment variables
 dotenv.config();
 
+export const CLIENT_PROVIDERS: ClientProvider[] = [
+  "azure",
+  "openai",
+  "openrouter",
+  "gemini",
+  "localLM",
+  "anthropic",
+  "ollama",
+];
+
 /**
- * Validates the configuration
+ * Validates the configuration, values given by a profile win over the provider env variables
  */
-export function getClientConfig(provider: ClientProvider): { apiKey: string; baseURL: string } {
+export function getClientConfig(
+  provider: ClientProvider,
+  profile: { apiKey?: string; baseURL?: string } = {}
+): { apiKey: string; baseURL: string } {
   switch (provider) {
     case "openai": {
-      const apiKey = process.env.OPENAI_API_KEY || "";
+      const apiKey = profile.apiKey || process.env.OPENAI_API_KEY || "";
       if (!apiKey) {
         throw new Error(
           "Error: API key is not set. Please set OPENAI_API_KEY in your .env file or system environment."
         );
       }
       return {
-        baseURL: "",
+        baseURL: profile.baseURL || "",
         apiKey,
       };
     }
     case "localLM": {
-      const baseURL = process.env.OPENAI_API_BASE_URL || "";
+      const baseURL = profile.baseURL || process.env.OPENAI_API_BASE_URL || "";
       if (!baseURL) {
         throw new Error(
           "Error: API key is not set. Please set OPENAI_API_BASE_URL in your .env file or system environment."
@@ -33,12 +46,30 @@ export function getClientConfig(provider: ClientProvider): { apiKey: string; bas
       }
 
       return {
-        apiKey: "",
+        apiKey: profile.apiKey || "",
         baseURL,
       };
     }
+    case "anthropic": {
+      const apiKey = profile.apiKey || process.env.ANTHROPIC_API_KEY || "";
+      if (!apiKey) {
+        throw new Error(
+          "Error: API key is not set. Please set ANTHROPIC_API_KEY in your .env file or system environment."
+        );
+      }
+
+      return {
+        apiKey,
+        baseURL: profile.baseURL || process.env.ANTHROPIC_BASE_URL || "",
+      };
+    }
+    case "ollama":
+      return {
+        apiKey: "",
+        baseURL: profile.baseURL || process.env.OLLAMA_HOST || "",
+      };
     case "openrouter": {
-      const apiKey = process.env.OPENROUTER_API_KEY || "";
+      const apiKey = profile.apiKey || process.env.OPENROUTER_API_KEY || "";
       if (!apiKey) {
         throw new Error(
           "Error: API key is not set. Please set OPENROUTER_API_KEY in your .env file or system environment."
@@ -47,11 +78,11 @@ export function getClientConfig(provider: ClientProvider): { apiKey: string; bas
 
       return {
         apiKey,
-        baseURL: process.env.OPENROUTER_BASE_URL || "",
+        baseURL: profile.baseURL || process.env.OPENROUTER_BASE_URL || "",
       };
     }
     case "gemini": {
-      const apiKey = process.env.GEMINI_API_KEY || "";
+      const apiKey = profile.apiKey || process.env.GEMINI_API_KEY || "";
       if (!apiKey) {
         throw new Error(
           "Error: API key is not set. Please set GEMINI_API_KEY in your .env file or system environment."
@@ -60,19 +91,19 @@ export function getClientConfig(provider: ClientProvider): { apiKey: string; bas
 
       return {
         apiKey,
-        baseURL: process.env.GEMINI_BASE_URL || "",
+        baseURL: profile.baseURL || process.env.GEMINI_BASE_URL || "",
       };
     }
     default: {
       // Default to Azure
-      const apiKey = process.env.AZURE_OPENAI_API_KEY || "";
+      const apiKey = profile.apiKey || process.env.AZURE_OPENAI_API_KEY || "";
       if (!apiKey) {
         throw new Error(
           "Error: API key is not set. Please set AZURE_OPENAI_API_KEY in your .env file or system environment."
         );
       }
 
-      const baseURL = process.env.AZURE_OPENAI_BASE_URL || "";
+      const baseURL = profile.baseURL || process.env.AZURE_OPENAI_BASE_URL || "";
       if (!baseURL) {
         throw new Error(
           "Error: API key is not set. Please set AZURE_OPENAI_BASE_URL in your .env file or system environment."
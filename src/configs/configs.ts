@@ -3,11 +3,13 @@ import * as dotenv from "dotenv";
 import figlet from "figlet";
 
 import type { ClientProvider } from "@client";
-import { getClientConfig } from "@configs/client";
+import { CLIENT_PROVIDERS, getClientConfig } from "@configs/client";
 
 import process from "node:process";
 
-import type { Config, GlobalConfig } from "./configs.types";
+import type { Config, GlobalConfig, ProviderProfile } from "./configs.types";
+import { formatUntrustedProject, loadGlobalConfig } from "./global";
+import { readKeychainSecret } from "./keychain";
 
 // Load environment variables
 dotenv.config();
@@ -37,24 +39,99 @@ export const defaultConfig: Config = {
   ],
 };
 
+// Used instead of defaultConfig.model when CODEBRO_MODEL is not set
+const DEFAULT_PROVIDER_MODELS: Partial<Record<ClientProvider, string>> = {
+  anthropic: "claude-sonnet-4-5",
+  ollama: "llama3.1",
+};
+
 /**
- * Creates a configuration object with custom overrides
+ * Creates a configuration object with custom overrides, `name` is a provider or a profile of config.json
  */
-export function createConfig(provider: ClientProvider, overrides: Partial<Config> = {}): Config {
-  const { apiKey, baseURL } = getClientConfig(provider);
+export function createConfig(
+  name: string,
+  overrides: Partial<Config> = {},
+  profiles: Record<string, ProviderProfile> = {}
+): Config {
+  const profile = CLIENT_PROVIDERS.includes(name as ClientProvider) ? undefined : profiles[name];
+  if (!profile && !CLIENT_PROVIDERS.includes(name as ClientProvider)) {
+    const names = [...CLIENT_PROVIDERS, ...Object.keys(profiles)];
+    throw new Error(`Unknown provider or profile '${name}', expected one of: ${names.join(", ")}`);
+  }
+
+  const provider = profile?.provider || (name as ClientProvider);
+  const { apiKey, baseURL } = getClientConfig(provider, profile && resolveProfileCredentials(name, profile));
 
   return {
     ...defaultConfig,
+    model: profile?.model || process.env.CODEBRO_MODEL || DEFAULT_PROVIDER_MODELS[provider] || defaultConfig.model,
     apiKey,
     baseURL,
     provider,
+    ...(profile ? { profile: name, headers: profile.headers, apiVersion: profile.apiVersion } : {}),
     ...overrides,
   };
 }
 
-export function printConfigMessage({ config, configDir, additionalPrompts }: GlobalConfig) {
+/**
+ * Same as createConfig, loading the profiles from the effective config.json when `name` is not a provider
+ */
+export async function resolveConfig(
+  name: string,
+  overrides: Partial<Config> = {},
+  workingDirectory = process.cwd()
+): Promise<Config> {
+  if (CLIENT_PROVIDERS.includes(name as ClientProvider)) {
+    return createConfig(name, overrides);
+  }
+
+  const { config } = await loadGlobalConfig(workingDirectory);
+  return createConfig(name, overrides, config.profiles);
+}
+
+function resolveProfileCredentials(name: string, profile: ProviderProfile): { apiKey?: string; baseURL?: string } {
+  let apiKey: string | undefined;
+  if (profile.apiKeyEnv) {
+    apiKey = process.env[profile.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(
+        `Error: API key is not set. Please set ${profile.apiKeyEnv} (profile ${name}) in your .env file or system environment.`
+      );
+    }
+  } else if (profile.keychain) {
+    apiKey = readKeychainSecret(profile.keychain);
+  }
+
+  return { apiKey, baseURL: profile.baseURL };
+}
+
+export function printConfigMessage(globalConfig: GlobalConfig) {
   console.log(chalk.yellow(figlet.textSync("Codebro", { horizontalLayout: "full" })));
-  console.log(chalk.blue("Directory:"), configDir, "\n");
+  printConfigDetails(globalConfig);
+}
+
+export function printConfigDetails({
+  config,
+  configDir,
+  projectDir,
+  configSources,
+  additionalPrompts,
+  untrustedProjectKeys,
+}: GlobalConfig) {
+  console.log(chalk.blue("Directory:"), configDir);
+  console.log(chalk.blue("Project:"), projectDir || chalk.dim("none, add .codebro/config.json or .codebrorules"), "\n");
+  if (untrustedProjectKeys?.length) {
+    console.log(chalk.yellow(`${formatUntrustedProject(untrustedProjectKeys)}\n`));
+  }
   console.log(chalk.blue("Config:\n"), JSON.stringify(config, null, 2), "\n");
+
+  const entries = Object.entries(configSources || {}).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length) {
+    const width = Math.max(...entries.map(([key]) => key.length)) + 2;
+    console.log(chalk.blue("Sources:"));
+    entries.forEach(([key, files]) => console.log(`  ${key.padEnd(width)}${chalk.dim(files.join(", "))}`));
+    console.log();
+  }
+
   console.log(chalk.blue("Additional Prompts:\n"), additionalPrompts);
 }
@@ -9,17 +9,133 @@ export interface Config {
   excludePaths: string[];
   useStreaming: boolean;
   baseURL?: string;
+  /** Name of the profile the provider settings come from */
+  profile?: string;
+  /** Additional HTTP headers sent with each request */
+  headers?: Record<string, string>;
+  /** Azure OpenAI API version */
+  apiVersion?: string;
 }
 
+export interface CompactionConfig {
+  /** Summarize older messages automatically when the budget is exceeded */
+  enabled?: boolean;
+  /** Estimated context size (in tokens) that triggers a compaction */
+  maxContextTokens?: number;
+  /** Estimated size (in tokens) of the most recent messages kept verbatim */
+  keepRecentTokens?: number;
+}
+
+/**
+ * Per model settings, prices are in USD per million tokens
+ */
+export interface ModelConfig {
+  inputPrice?: number;
+  outputPrice?: number;
+  /** Price of prompt tokens served from the provider cache, defaults to inputPrice */
+  cachedInputPrice?: number;
+  /** Whether the model accepts images, overrides what the provider reports */
+  vision?: boolean;
+}
+
+export interface PermissionsConfig {
+  /** Rules allowing tool calls without asking, e.g. "editFile" or "executeCommand(npm test*)" */
+  allow?: string[];
+  /** Rules always denying tool calls, checked before allow rules */
+  deny?: string[];
+}
+
+/**
+ * Models used instead of the default one, e.g. a reasoning model for planning and a cheaper one for execution
+ */
+export interface ModelRoutingConfig {
+  /** Model per agent mode */
+  modes?: { plan?: string; execute?: string };
+  /** Model per tool calling the LLM itself, keyed by tool name e.g. "planner" */
+  tools?: Record<string, string>;
+}
+
+export interface RetryConfig {
+  /** Retries of a failed request before falling back, default 3 */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on each retry, default 1000 */
+  initialDelayMs?: number;
+  /** Longest delay, a longer Retry-After falls back at once, default 30000 */
+  maxDelayMs?: number;
+}
+
+/**
+ * Backend used when the previous ones keep failing, the model defaults to the requested one
+ */
+export interface FallbackConfig {
+  /** Provider or profile name */
+  provider: string;
+  model?: string;
+}
+
+/**
+ * Entry of the OS keychain, see `readKeychainSecret`
+ */
+export interface KeychainReference {
+  service: string;
+  account?: string;
+}
+
+/**
+ * Named provider settings selected with `--provider <name>`, e.g. to keep two Azure deployments side by side.
+ * Values not given fall back to the env variables of the provider.
+ */
+export interface ProviderProfile {
+  provider: ClientProvider;
+  baseURL?: string;
+  /** Env variable holding the API key */
+  apiKeyEnv?: string;
+  /** Keychain entry holding the API key, used when apiKeyEnv is not given */
+  keychain?: KeychainReference;
+  /** Default model of the profile */
+  model?: string;
+  headers?: Record<string, string>;
+  /** Azure OpenAI API version */
+  apiVersion?: string;
+}
+
+/**
+ * How tools are offered to the model: native function calling, tool declarations in the system prompt with
+ * calls parsed from the answer, or auto (prompt only for models the provider reports without tool support)
+ */
+export type ToolCallingMode = "auto" | "native" | "prompt";
+
 export interface CodebroConfig {
   mcpServers: McpConfig;
   mcpServersPath?: string;
   ignoreFiles: string[];
   excludeTools: string[];
+  /** MCP tools each agent type may use, e.g. `{ "prompter": ["puppeteer-*"] }`, agents not listed get every tool */
+  agentMcpTools?: Record<string, string[]>;
+  compaction?: CompactionConfig;
+  models?: Record<string, ModelConfig>;
+  permissions?: PermissionsConfig;
+  toolCalling?: ToolCallingMode;
+  routing?: ModelRoutingConfig;
+  retry?: RetryConfig;
+  fallbacks?: FallbackConfig[];
+  profiles?: Record<string, ProviderProfile>;
+  /** Project directories whose config.json may set the keys of TRUSTED_PROJECT_KEYS, read from the global config only */
+  trustedProjects?: string[];
 }
 
+/**
+ * Files each effective config value came from, keyed by dotted path e.g. "compaction.enabled"
+ */
+export type ConfigSources = Record<string, string[]>;
+
 export interface GlobalConfig {
   additionalPrompts: string;
   config: CodebroConfig;
   configDir: string;
+  /** Nearest project directory with a .codebro/config.json or .codebrorules, if any */
+  projectDir?: string;
+  configSources: ConfigSources;
+  /** Keys of the project config.json ignored until the project is trusted, e.g. "mcpServers" */
+  untrustedProjectKeys?: string[];
 }
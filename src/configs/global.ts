@@ -5,11 +5,19 @@ import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
 
-import type { CodebroConfig, GlobalConfig } from "./configs.types";
+import type { CodebroConfig, ConfigSources, GlobalConfig } from "./configs.types";
+import { mergeConfigLayer } from "./merge";
+import { formatConfigIssues, validateConfig, validateMcpConfig } from "./schema";
 
 export const CONFIG_FOLDER_NAME = "com.github.rovndev.codebro";
 export const CONFIG_FILE_NAME = "config.json";
 export const CONFIG_RULE_FILE_NAME = ".codebrorules";
+export const CONFIG_COMMANDS_DIR_NAME = "commands";
+export const PROJECT_CONFIG_DIR_NAME = ".codebro";
+
+// Project config keys able to start commands, approve tool calls or send API keys to other hosts,
+// honored only for projects trusted with `codebro config trust`
+export const TRUSTED_PROJECT_KEYS = ["mcpServers", "mcpServersPath", "permissions.allow", "profiles", "fallbacks"];
 
 /**
  * Determines the user configuration directory based on the platform.
@@ -55,6 +63,11 @@ export async function initializeConfigFiles(): Promise<void> {
     mcpServersPath: "",
     ignoreFiles: ["**/dist/**", "**/node_modules/**", "**/build/**"],
     excludeTools: [],
+    models: {
+      "gpt-4o": { inputPrice: 2.5, outputPrice: 10, cachedInputPrice: 1.25 },
+      "gpt-4o-mini": { inputPrice: 0.15, outputPrice: 0.6, cachedInputPrice: 0.075 },
+      "claude-sonnet-4-5": { inputPrice: 3, outputPrice: 15, cachedInputPrice: 0.3 },
+    },
   };
 
   // Default .codebrorules (additional system prompts)
@@ -73,61 +86,249 @@ export async function initializeConfigFiles(): Promise<void> {
 }
 
 /**
- * Loads the configuration from user config directory.
+ * Updates config.json in place. The raw file is used so values resolved at load time
+ * (e.g. MCP servers from mcpServersPath) are not written back.
+ */
+export async function updateGlobalConfigFile(
+  update: (config: Partial<CodebroConfig>) => void
+): Promise<Partial<CodebroConfig>> {
+  await initializeConfigFiles();
+  return updateConfigFile(path.join(getConfigDir(), CONFIG_FILE_NAME), update);
+}
+
+/**
+ * Updates a config.json in place, creating it when missing. Nothing is written when the result is invalid.
  */
-export async function loadGlobalConfig(): Promise<GlobalConfig> {
+export async function updateConfigFile(
+  configPath: string,
+  update: (config: Partial<CodebroConfig>) => void
+): Promise<Partial<CodebroConfig>> {
+  try {
+    const config: Partial<CodebroConfig> = existsSync(configPath)
+      ? JSON.parse(await fs.readFile(configPath, "utf-8"))
+      : {};
+    update(config);
+
+    const errors = validateConfig(config).filter(issue => issue.level === "error");
+    if (errors.length) {
+      throw new Error(`the result would be invalid:\n${formatConfigIssues(errors)}`);
+    }
+
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, JSON.stringify(config, null, 2), "utf-8");
+
+    return config;
+  } catch (error: any) {
+    throw new Error(`Failed to update ${configPath}: ${error.message}`);
+  }
+}
+
+/**
+ * Path of the project config.json to write to: the nearest existing one, else one in workingDirectory
+ */
+export function getProjectConfigPath(workingDirectory: string): string {
+  return (
+    findProjectConfig(workingDirectory).configPath ||
+    path.join(workingDirectory, PROJECT_CONFIG_DIR_NAME, CONFIG_FILE_NAME)
+  );
+}
+
+/**
+ * Loads the configuration from user config directory, then layers the project config over it.
+ * The project config is the nearest `.codebro/config.json` and `.codebrorules` walking up from workingDirectory.
+ */
+export async function loadGlobalConfig(workingDirectory: string = process.cwd()): Promise<GlobalConfig> {
   const configDir = await ensureConfigDir();
   const configPath = path.join(configDir, CONFIG_FILE_NAME);
   const rulesPath = path.join(configDir, CONFIG_RULE_FILE_NAME);
 
-  let config: CodebroConfig = {
+  const config: CodebroConfig = {
     mcpServers: {},
     mcpServersPath: "",
     ignoreFiles: [],
     excludeTools: [],
   };
+  const configSources: ConfigSources = {};
   let additionalPrompts = "";
-  let mcpConfig: McpConfig = {};
 
   try {
-    // Load config.json
-    if (existsSync(configPath)) {
-      const configContent = await fs.readFile(configPath, "utf-8");
-      config = JSON.parse(configContent);
-    } else {
+    if (!existsSync(configPath) || !existsSync(rulesPath)) {
       await initializeConfigFiles();
-      const configContent = await fs.readFile(configPath, "utf-8");
-      config = JSON.parse(configContent);
     }
 
-    // Load MCP config
-    if (config.mcpServersPath && existsSync(config.mcpServersPath)) {
-      try {
-        const mcpModule = await import(`file://${config.mcpServersPath}`);
-        const mcpJSON = mcpModule.default || {};
-        mcpConfig = mcpJSON.mcpServers || {};
-      } catch (error: any) {
-        console.warn(
-          `Failed to load MCP config from ${config.mcpServersPath}: ${error.message}, falling back to mcpServers`
-        );
-        mcpConfig = config.mcpServers || {};
+    // Load config.json
+    mergeConfigLayer(config, (await readConfigLayer(configPath)).config, configPath, configSources);
+
+    // Load additional system prompts
+    additionalPrompts = await fs.readFile(rulesPath, "utf-8");
+
+    const project = findProjectConfig(workingDirectory);
+    let untrustedProjectKeys: string[] | undefined;
+    if (project.configPath && project.dir) {
+      const trusted = isTrustedProject(config, project.dir);
+      const layer = await readConfigLayer(project.configPath, project.dir, trusted);
+      untrustedProjectKeys = trusted ? undefined : layer.untrustedKeys;
+      mergeConfigLayer(config, layer.config, project.configPath, configSources);
+    }
+    if (project.rulesPath) {
+      additionalPrompts += `\n\n# Project rules\n${await fs.readFile(project.rulesPath, "utf-8")}`;
+    }
+
+    return { additionalPrompts, config, configDir, projectDir: project.dir, configSources, untrustedProjectKeys };
+  } catch (error: any) {
+    throw new Error(`Failed to load configuration: ${error.message}`);
+  }
+}
+
+/**
+ * Find the nearest project config.json and .codebrorules, walking up from the given directory
+ */
+export function findProjectConfig(workingDirectory: string): { dir?: string; configPath?: string; rulesPath?: string } {
+  const configDir = getConfigDir();
+  let configPath: string | undefined;
+  let rulesPath: string | undefined;
+  let projectDir: string | undefined;
+
+  let dir = path.resolve(workingDirectory);
+  while (true) {
+    // The global config dir is not a project, e.g. when codebro runs from it
+    if (dir !== configDir) {
+      const candidateConfig = path.join(dir, PROJECT_CONFIG_DIR_NAME, CONFIG_FILE_NAME);
+      const candidateRules = path.join(dir, CONFIG_RULE_FILE_NAME);
+      if (!configPath && existsSync(candidateConfig)) {
+        configPath = candidateConfig;
+        projectDir ||= dir;
+      }
+      if (!rulesPath && existsSync(candidateRules)) {
+        rulesPath = candidateRules;
+        projectDir ||= dir;
       }
-    } else {
-      mcpConfig = config.mcpServers || {};
     }
 
-    // Load additional system prompts
-    if (existsSync(rulesPath)) {
-      additionalPrompts = await fs.readFile(rulesPath, "utf-8");
-    } else {
-      await initializeConfigFiles();
-      additionalPrompts = await fs.readFile(rulesPath, "utf-8");
+    const parent = path.dirname(dir);
+    if (parent === dir || (configPath && rulesPath)) {
+      break;
     }
+    dir = parent;
+  }
 
-    config.mcpServers = mcpConfig;
+  return { dir: projectDir, configPath, rulesPath };
+}
 
-    return { additionalPrompts, config, configDir };
+/**
+ * Read a config.json and resolve its MCP servers, relative mcpServersPath are resolved from the project directory.
+ * The keys of TRUSTED_PROJECT_KEYS are left out of untrusted projects before anything is loaded.
+ */
+async function readConfigLayer(
+  configPath: string,
+  projectDir?: string,
+  trusted = true
+): Promise<{ config: Partial<CodebroConfig>; untrustedKeys: string[] }> {
+  let layer: Partial<CodebroConfig>;
+  try {
+    layer = JSON.parse(await fs.readFile(configPath, "utf-8"));
   } catch (error: any) {
-    throw new Error(`Failed to load configuration: ${error.message}`);
+    throw new Error(`${configPath}: ${error.message}`);
+  }
+
+  const errors = validateConfig(layer).filter(issue => issue.level === "error");
+  if (errors.length) {
+    throw new Error(`${configPath} is invalid (see \`codebro config validate\`):\n${formatConfigIssues(errors)}`);
+  }
+
+  const untrustedKeys: string[] = [];
+  if (projectDir) {
+    // Only the user decides which projects are trusted
+    delete layer.trustedProjects;
+    if (!trusted) {
+      untrustedKeys.push(...removeTrustedKeys(layer));
+    }
+  }
+  // Load MCP config
+  const mcpServersPath = resolveMcpServersPath(layer, projectDir);
+  if (mcpServersPath && existsSync(mcpServersPath)) {
+    try {
+      const mcpServers = await loadMcpServersFile(mcpServersPath);
+      const mcpErrors = validateMcpConfig(mcpServers);
+      if (mcpErrors.length) {
+        console.warn(
+          `Invalid MCP config in ${mcpServersPath}, falling back to mcpServers:\n${formatConfigIssues(mcpErrors)}`
+        );
+      } else {
+        layer.mcpServers = mcpServers;
+      }
+    } catch (error: any) {
+      console.warn(`Failed to load MCP config from ${mcpServersPath}: ${error.message}, falling back to mcpServers`);
+    }
+  }
+
+  return { config: layer, untrustedKeys };
+}
+
+/**
+ * Whether the config of a project directory is trusted by `trustedProjects` of the global config
+ */
+export function isTrustedProject(config: Partial<CodebroConfig>, projectDir: string): boolean {
+  return (config.trustedProjects || []).some(dir => path.resolve(dir) === path.resolve(projectDir));
+}
+
+/**
+ * Add or remove a project directory from trustedProjects in the global config
+ */
+export async function setProjectTrust(projectDir: string, trusted: boolean): Promise<void> {
+  const resolved = path.resolve(projectDir);
+  await updateGlobalConfigFile(config => {
+    const others = (config.trustedProjects || []).filter(dir => path.resolve(dir) !== resolved);
+    config.trustedProjects = trusted ? [...others, resolved] : others;
+  });
+}
+
+/**
+ * Remove the keys of TRUSTED_PROJECT_KEYS from a config layer, returns the ones that were set
+ */
+export function removeTrustedKeys(layer: Partial<CodebroConfig>): string[] {
+  const removed: string[] = [];
+  const isSet = (value: unknown) =>
+    Boolean(value) && (typeof value !== "object" || Object.keys(value as object).length > 0);
+
+  for (const key of ["mcpServers", "mcpServersPath", "profiles", "fallbacks"] as const) {
+    if (isSet(layer[key])) {
+      removed.push(key);
+    }
+    delete layer[key];
+  }
+  if (layer.permissions?.allow) {
+    if (layer.permissions.allow.length) {
+      removed.push("permissions.allow");
+    }
+    delete layer.permissions.allow;
   }
+
+  return removed;
+}
+
+/**
+ * Absolute path of the mcpServersPath of a config layer, relative paths are resolved from baseDir
+ */
+export function resolveMcpServersPath(layer: Partial<CodebroConfig>, baseDir?: string): string | undefined {
+  return layer.mcpServersPath && baseDir ? path.resolve(baseDir, layer.mcpServersPath) : layer.mcpServersPath;
+}
+
+/**
+ * Load the `mcpServers` of a Claude Desktop like configuration file
+ */
+export async function loadMcpServersFile(mcpServersPath: string): Promise<McpConfig> {
+  const mcpModule = await import(`file://${mcpServersPath}`);
+  const mcpJSON = mcpModule.default || {};
+  return mcpJSON.mcpServers || {};
+}
+
+/**
+ * Warning about the keys of a project config.json ignored until the project is trusted
+ */
+export function formatUntrustedProject(untrustedProjectKeys: string[]): string {
+  return (
+    `The project config sets ${untrustedProjectKeys.join(", ")}, ignored until you trust the project ` +
+    "with `codebro config trust`"
+  );
 }
@@ -1,4 +1,6 @@
 export * from "./configs.types";
 export * from "./configs";
 export * from "@configs/global";
+export * from "./schema";
+export * from "./manage";
 export * from "./client";
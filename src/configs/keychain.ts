@@ -0,0 +1,36 @@
+import { execFileSync } from "node:child_process";
+import * as os from "node:os";
+
+import type { KeychainReference } from "./configs.types";
+
+/**
+ * Read a secret from the OS keychain: the macOS Keychain (`security`) or the Secret Service on Linux (`secret-tool`)
+ */
+export function readKeychainSecret({ service, account }: KeychainReference): string {
+  const platform = os.platform();
+  let command: string;
+  let args: string[];
+  if (platform === "darwin") {
+    command = "security";
+    args = ["find-generic-password", "-s", service, ...(account ? ["-a", account] : []), "-w"];
+  } else if (platform === "linux") {
+    command = "secret-tool";
+    args = ["lookup", "service", service, ...(account ? ["account", account] : [])];
+  } else {
+    throw new Error(`Failed to read the keychain: not supported on ${platform}, use apiKeyEnv instead`);
+  }
+
+  let secret: string;
+  try {
+    secret = execFileSync(command, args, { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+  } catch (error: any) {
+    const reason = error.code === "ENOENT" ? `${command} is not installed` : error.stderr?.trim() || error.message;
+    throw new Error(`Failed to read the keychain entry '${service}': ${reason}`);
+  }
+
+  if (!secret) {
+    throw new Error(`Failed to read the keychain entry '${service}': the entry is empty`);
+  }
+
+  return secret;
+}
@@ -0,0 +1,233 @@
+import chalk from "chalk";
+
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { CodebroConfig, ConfigSources } from "./configs.types";
+import {
+  CONFIG_FILE_NAME,
+  findProjectConfig,
+  formatUntrustedProject,
+  getConfigDir,
+  initializeConfigFiles,
+  isTrustedProject,
+  loadMcpServersFile,
+  removeTrustedKeys,
+  resolveMcpServersPath,
+} from "./global";
+import { type ConfigIssue, formatConfigIssues, validateConfig, validateMcpConfig } from "./schema";
+
+/**
+ * Split a config key into its path, e.g. `compaction.enabled` or `models["gpt-4.1"].inputPrice`
+ */
+export function parseConfigKey(key: string): string[] {
+  const parts = [...key.matchAll(/\["([^"]+)"\]|\['([^']+)'\]|([^.[\]]+)/g)].map(
+    match => match[1] || match[2] || match[3]
+  );
+  if (!parts.length || parts.some(part => !part)) {
+    throw new Error(`Invalid config key '${key}'`);
+  }
+
+  return parts as string[];
+}
+
+export function getConfigValue(config: Record<string, any>, key: string): unknown {
+  return parseConfigKey(key).reduce<any>((value, part) => (value === undefined ? undefined : value?.[part]), config);
+}
+
+export function setConfigValue(config: Record<string, any>, key: string, value: unknown): void {
+  const parts = parseConfigKey(key);
+  const last = parts.pop()!;
+  let target = config;
+  for (const part of parts) {
+    if (typeof target[part] !== "object" || target[part] === null || Array.isArray(target[part])) {
+      target[part] = {};
+    }
+    target = target[part];
+  }
+
+  target[last] = value;
+}
+
+/**
+ * Remove a value, returns false when it was not set
+ */
+export function unsetConfigValue(config: Record<string, any>, key: string): boolean {
+  const parts = parseConfigKey(key);
+  const last = parts.pop()!;
+  const target = parts.reduce<any>((value, part) => value?.[part], config);
+  if (!target || typeof target !== "object" || !(last in target)) {
+    return false;
+  }
+
+  delete target[last];
+  return true;
+}
+
+/**
+ * Values are parsed as JSON when possible (numbers, booleans, arrays, objects), plain strings otherwise
+ */
+export function parseConfigValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Validate the global config.json, the project one and the files their mcpServersPath point to
+ */
+export async function validateConfigFiles(
+  workingDirectory: string
+): Promise<{ path: string; issues: ConfigIssue[] }[]> {
+  await initializeConfigFiles();
+  const globalConfigPath = path.join(getConfigDir(), CONFIG_FILE_NAME);
+  const project = findProjectConfig(workingDirectory);
+  const files: [string, string | undefined][] = [[globalConfigPath, undefined]];
+  if (project.configPath && project.dir) {
+    files.push([project.configPath, project.dir]);
+  }
+
+  const results: { path: string; issues: ConfigIssue[] }[] = [];
+  let globalLayer: Partial<CodebroConfig> = {};
+  for (const [configPath, baseDir] of files) {
+    let layer: Partial<CodebroConfig>;
+    try {
+      layer = JSON.parse(await fs.readFile(configPath, "utf-8"));
+    } catch (error: any) {
+      results.push({ path: configPath, issues: [{ path: "", message: error.message, level: "error" }] });
+      continue;
+    }
+    results.push({ path: configPath, issues: validateConfig(layer) });
+    if (!baseDir) {
+      globalLayer = layer;
+    }
+
+    // mcpServersPath is a module, it is not imported for projects that are not trusted
+    if (baseDir && !isTrustedProject(globalLayer, baseDir)) {
+      const untrustedKeys = removeTrustedKeys(layer);
+      if (untrustedKeys.length) {
+        results[results.length - 1]!.issues.push({
+          path: "",
+          message: formatUntrustedProject(untrustedKeys),
+          level: "warning",
+        });
+      }
+      continue;
+    }
+
+    const mcpServersPath = resolveMcpServersPath(layer, baseDir);
+    if (!mcpServersPath) {
+      continue;
+    }
+
+    if (!existsSync(mcpServersPath)) {
+      const message = `mcpServersPath ${mcpServersPath} does not exist, mcpServers is used instead`;
+      results[results.length - 1]!.issues.push({ path: "mcpServersPath", message, level: "warning" });
+      continue;
+    }
+
+    try {
+      results.push({ path: mcpServersPath, issues: validateMcpConfig(await loadMcpServersFile(mcpServersPath)) });
+    } catch (error: any) {
+      results.push({ path: mcpServersPath, issues: [{ path: "", message: error.message, level: "error" }] });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Print validation results, returns false when a file has errors
+ */
+export function printValidationResults(results: { path: string; issues: ConfigIssue[] }[]): boolean {
+  let valid = true;
+  for (const result of results) {
+    const hasErrors = result.issues.some(issue => issue.level === "error");
+    valid &&= !hasErrors;
+
+    if (!result.issues.length) {
+      console.log(chalk.green(`✔ ${result.path}`));
+      continue;
+    }
+
+    console.log(hasErrors ? chalk.red(`✖ ${result.path}`) : chalk.yellow(`⚠ ${result.path}`));
+    console.log(formatConfigIssues(result.issues));
+  }
+
+  return valid;
+}
+
+/**
+ * Open a config file in $VISUAL / $EDITOR and wait until the editor exits
+ */
+export async function editConfigFile(configPath: string): Promise<void> {
+  if (!existsSync(configPath)) {
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, "{}\n", "utf-8");
+  }
+
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+  const result = spawnSync(`${editor} ${JSON.stringify(configPath)}`, { stdio: "inherit", shell: true });
+  if (result.error || result.status !== 0) {
+    throw new Error(`Failed to run editor '${editor}': ${result.error?.message || `exit code ${result.status}`}`);
+  }
+}
+
+export function printProfiles(config: CodebroConfig, sources: ConfigSources) {
+  const profiles = Object.entries(config.profiles || {});
+  if (!profiles.length) {
+    console.log(
+      chalk.yellow(
+        'No profiles configured, add one with `codebro config set profiles.<name> \'{"provider": "azure"}\'`.'
+      )
+    );
+    return;
+  }
+
+  for (const [name, profile] of profiles) {
+    const source = sources[`profiles.${name}`] || sources.profiles || [];
+    console.log(`${chalk.blue(name)}  ${profile.provider}${profile.model ? `/${profile.model}` : ""}`);
+    if (profile.baseURL) {
+      console.log(chalk.dim(`    url: ${profile.baseURL}`));
+    }
+    const apiKey = profile.apiKeyEnv
+      ? `$${profile.apiKeyEnv}`
+      : profile.keychain
+        ? `keychain ${profile.keychain.service}${profile.keychain.account ? ` (${profile.keychain.account})` : ""}`
+        : "provider env variable";
+    console.log(chalk.dim(`    key: ${apiKey}`));
+    if (source.length) {
+      console.log(chalk.dim(`    from: ${source.join(", ")}`));
+    }
+  }
+}
+
+export function printMcpServers(config: CodebroConfig, sources: ConfigSources) {
+  const servers = Object.entries(config.mcpServers || {});
+  if (!servers.length) {
+    console.log(chalk.yellow("No MCP servers configured, add one with `codebro config mcp add <name> <command>`."));
+    return;
+  }
+
+  for (const [name, server] of servers) {
+    const source = sources[`mcpServers.${name}`] || sources.mcpServers || [];
+    if ("url" in server) {
+      console.log(`${chalk.blue(name)}  ${server.url}${server.transport ? chalk.dim(` (${server.transport})`) : ""}`);
+      if (server.headers && Object.keys(server.headers).length) {
+        console.log(chalk.dim(`    headers: ${Object.keys(server.headers).join(", ")}`));
+      }
+    } else {
+      console.log(`${chalk.blue(name)}  ${[server.command, ...(server.args || [])].join(" ")}`);
+      if (server.envMapping && Object.keys(server.envMapping).length) {
+        console.log(chalk.dim(`    env: ${Object.keys(server.envMapping).join(", ")}`));
+      }
+    }
+    if (source.length) {
+      console.log(chalk.dim(`    from: ${source.join(", ")}`));
+    }
+  }
+}
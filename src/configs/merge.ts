@@ -0,0 +1,46 @@
+import type { ConfigSources } from "./configs.types";
+
+// Objects deeper than this (e.g. one MCP server or one model) are replaced as a whole
+const MAX_MERGE_DEPTH = 2;
+
+/**
+ * Deep-merge a config layer into `target` and record which file each value came from.
+ * Nested objects are merged key by key, arrays are concatenated without duplicates, other values are replaced.
+ */
+export function mergeConfigLayer(
+  target: Record<string, any>,
+  layer: Record<string, any>,
+  source: string,
+  sources: ConfigSources,
+  prefix = ""
+): Record<string, any> {
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    const depth = keyPath.split(".").length;
+    const current = target[key];
+
+    if (isPlainObject(value) && depth < MAX_MERGE_DEPTH) {
+      target[key] = mergeConfigLayer(isPlainObject(current) ? current : {}, value, source, sources, keyPath);
+      continue;
+    }
+
+    if (Array.isArray(value) && Array.isArray(current)) {
+      target[key] = [...new Set([...current, ...value])];
+      sources[keyPath] = value.length ? [...new Set([...(sources[keyPath] || []), source])] : sources[keyPath] || [];
+      continue;
+    }
+
+    target[key] = value;
+    sources[keyPath] = [source];
+  }
+
+  return target;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,169 @@
+import { z } from "zod";
+
+import type { ClientProvider } from "@client";
+
+import { CLIENT_PROVIDERS } from "./client";
+
+/**
+ * A problem found in a config file, path is dotted e.g. "mcpServers.github.command"
+ */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+  /** Warnings do not prevent codebro from loading the config */
+  level: "error" | "warning";
+}
+
+const mcpServerOptionsShape = {
+  disabled: z.boolean().optional(),
+  includeTools: z.array(z.string()).optional(),
+  excludeTools: z.array(z.string()).optional(),
+  prefix: z.string().optional(),
+};
+
+export const mcpServerSchema = z.object({
+  command: z.string().min(1, "command is required"),
+  args: z.array(z.string()).default([]),
+  envMapping: z.record(z.string()).optional(),
+  ...mcpServerOptionsShape,
+});
+
+export const mcpRemoteServerSchema = z
+  .object({
+    url: z.string().url(),
+    transport: z.enum(["http", "sse"]).optional(),
+    headers: z.record(z.string()).optional(),
+    ...mcpServerOptionsShape,
+  })
+  .strict();
+
+// Entries with a url are remote servers, the others local commands
+export const mcpConfigSchema = z.record(
+  z.any().superRefine((value, context) => {
+    const schema = value && typeof value === "object" && "url" in value ? mcpRemoteServerSchema : mcpServerSchema;
+    const result = schema.safeParse(value);
+    result.error?.issues.forEach(issue => context.addIssue(issue));
+  })
+);
+
+const ruleListSchema = z.array(z.string());
+
+/**
+ * Schema of a config.json layer, every key is optional since project configs only override some values
+ */
+export const codebroConfigSchema = z.object({
+  mcpServers: mcpConfigSchema.optional(),
+  mcpServersPath: z.string().optional(),
+  ignoreFiles: z.array(z.string()).optional(),
+  excludeTools: z.array(z.string()).optional(),
+  agentMcpTools: z.record(z.array(z.string())).optional(),
+  compaction: z
+    .object({
+      enabled: z.boolean().optional(),
+      maxContextTokens: z.number().int().positive().optional(),
+      keepRecentTokens: z.number().int().nonnegative().optional(),
+    })
+    .strict()
+    .optional(),
+  models: z
+    .record(
+      z
+        .object({
+          inputPrice: z.number().nonnegative().optional(),
+          outputPrice: z.number().nonnegative().optional(),
+          cachedInputPrice: z.number().nonnegative().optional(),
+          vision: z.boolean().optional(),
+        })
+        .strict()
+    )
+    .optional(),
+  permissions: z.object({ allow: ruleListSchema.optional(), deny: ruleListSchema.optional() }).strict().optional(),
+  toolCalling: z.enum(["auto", "native", "prompt"]).optional(),
+  routing: z
+    .object({
+      modes: z
+        .object({ plan: z.string().min(1).optional(), execute: z.string().min(1).optional() })
+        .strict()
+        .optional(),
+      tools: z.record(z.string().min(1)).optional(),
+    })
+    .strict()
+    .optional(),
+  retry: z
+    .object({
+      maxRetries: z.number().int().nonnegative().optional(),
+      initialDelayMs: z.number().int().positive().optional(),
+      maxDelayMs: z.number().int().positive().optional(),
+    })
+    .strict()
+    .optional(),
+  fallbacks: z
+    .array(
+      z
+        .object({
+          provider: z.string().min(1, "provider or profile name is required"),
+          model: z.string().min(1).optional(),
+        })
+        .strict()
+    )
+    .optional(),
+  profiles: z
+    .record(
+      z
+        .object({
+          provider: z.enum(CLIENT_PROVIDERS as [ClientProvider, ...ClientProvider[]]),
+          baseURL: z.string().url().optional(),
+          apiKeyEnv: z.string().min(1).optional(),
+          keychain: z
+            .object({ service: z.string().min(1), account: z.string().min(1).optional() })
+            .strict()
+            .optional(),
+          model: z.string().min(1).optional(),
+          headers: z.record(z.string()).optional(),
+          apiVersion: z.string().min(1).optional(),
+        })
+        .strict()
+    )
+    .refine(profiles => Object.keys(profiles).every(name => !CLIENT_PROVIDERS.includes(name as ClientProvider)), {
+      message: `Profile names must differ from the providers: ${CLIENT_PROVIDERS.join(", ")}`,
+    })
+    .optional(),
+  trustedProjects: z.array(z.string()).optional(),
+});
+
+/**
+ * Validate a parsed config.json, unknown top-level keys are reported unless prefixed with "@" (disabled entries)
+ */
+export function validateConfig(value: unknown): ConfigIssue[] {
+  const result = codebroConfigSchema.safeParse(value);
+  const issues = result.success ? [] : toConfigIssues(result.error);
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const knownKeys = Object.keys(codebroConfigSchema.shape);
+    for (const key of Object.keys(value)) {
+      if (!key.startsWith("@") && !knownKeys.includes(key)) {
+        issues.push({ path: key, message: `Unknown key, expected one of: ${knownKeys.join(", ")}`, level: "warning" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate MCP servers, e.g. loaded from mcpServersPath
+ */
+export function validateMcpConfig(value: unknown): ConfigIssue[] {
+  const result = mcpConfigSchema.safeParse(value);
+  return result.success ? [] : toConfigIssues(result.error);
+}
+
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues
+    .map(issue => `  - ${issue.path || "(root)"}: ${issue.message}${issue.level === "warning" ? " (warning)" : ""}`)
+    .join("\n");
+}
+
+function toConfigIssues(error: z.ZodError): ConfigIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message, level: "error" }));
+}
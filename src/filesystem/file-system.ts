@@ -63,6 +63,47 @@ export async function getRelevantFiles(
   return files;
 }
 
+/**
+ * Whether a path relative to the project points outside of it, e.g. `../../etc/passwd` or another drive
+ */
+export function isOutsideProject(relativePath: string): boolean {
+  return relativePath === ".." || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath);
+}
+
+const GLOB_TOKENS: Record<string, string> = {
+  "**/": "(?:.*/)?",
+  "**": ".*",
+  "*": "[^/]*",
+  "?": "[^/]",
+};
+
+/**
+ * Whether a path relative to the project matches one of the ignoreFiles patterns of config.json.
+ * `**` matches any number of directories and `*` anything but `/`, patterns without `/` match any file or directory
+ * name. Paths inside an ignored directory are ignored as well.
+ */
+export function isIgnoredPath(relativePath: string, patterns: string[] = []): boolean {
+  const segments = relativePath.split(path.sep).join("/").replace(/^\.\//, "").split("/").filter(Boolean);
+  const prefixes = segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+
+  return patterns.some(pattern => {
+    const regex = globToRegExp(pattern.replace(/^\.?\//, "").replace(/\/+$/, ""));
+    if (!pattern.replace(/\/+$/, "").includes("/")) {
+      return segments.some(segment => regex.test(segment));
+    }
+
+    return prefixes.some(prefix => regex.test(prefix) || regex.test(`${prefix}/`));
+  });
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map(part => GLOB_TOKENS[part] ?? part.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
 /**
  * Check if a file is a text file based on extension
  */
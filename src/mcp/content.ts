@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from "uuid";
+
+import { PROJECT_CONFIG_DIR_NAME } from "@configs/global";
+import type { CallToolResult, ContentBlock } from "@modelcontextprotocol/sdk/types.js";
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { McpToolResult } from "./mcp.types";
+
+export const ARTIFACTS_DIR = path.join(PROJECT_CONFIG_DIR_NAME, "artifacts");
+
+/**
+ * Convert the content blocks of an MCP tool result: text is joined, images and other binary content are saved under
+ * `.codebro/artifacts` and referenced by path instead of sending base64 to the model
+ */
+export async function toMcpToolResult(result: CallToolResult, workingDirectory: string): Promise<McpToolResult> {
+  const artifacts: string[] = [];
+  const saveArtifact = async (data: string, mimeType?: string) => {
+    const artifact = await saveBase64Artifact(workingDirectory, data, mimeType);
+    artifacts.push(artifact);
+    return artifact;
+  };
+
+  const parts: string[] = [];
+  for (const block of result.content || []) {
+    parts.push(await formatContentBlock(block, saveArtifact));
+  }
+  if (!parts.length && result.structuredContent) {
+    parts.push(JSON.stringify(result.structuredContent));
+  }
+
+  const content = parts.filter(Boolean).join("\n");
+  if (result.isError) {
+    return {
+      success: false,
+      error: content || "The tool reported an error",
+      ...(artifacts.length ? { artifacts } : {}),
+    };
+  }
+
+  return { success: true, content, ...(artifacts.length ? { artifacts } : {}) };
+}
+
+async function formatContentBlock(
+  block: ContentBlock,
+  saveArtifact: (data: string, mimeType?: string) => Promise<string>
+): Promise<string> {
+  switch (block.type) {
+    case "text":
+      return block.text;
+    case "image":
+    case "audio":
+      return `[${block.type} saved to ${await saveArtifact(block.data, block.mimeType)}]`;
+    case "resource":
+      if ("text" in block.resource) {
+        return `[resource ${block.resource.uri}]\n${block.resource.text}`;
+      }
+      return `[resource ${block.resource.uri} saved to ${await saveArtifact(block.resource.blob, block.resource.mimeType)}]`;
+    case "resource_link":
+      return `[resource ${block.uri}${block.description ? `: ${block.description}` : ""}]`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Save base64 content as an artifact, returns its path relative to the project
+ */
+async function saveBase64Artifact(workingDirectory: string, data: string, mimeType?: string): Promise<string> {
+  const extension = mimeType?.split("/")[1]?.split(/[+;]/)[0]?.replace("jpeg", "jpg") || "bin";
+  const artifact = path.join(ARTIFACTS_DIR, `${Date.now()}-${uuidv4().slice(0, 8)}.${extension}`);
+
+  try {
+    await fs.mkdir(path.join(workingDirectory, ARTIFACTS_DIR), { recursive: true });
+    await fs.writeFile(path.join(workingDirectory, artifact), Buffer.from(data, "base64"));
+  } catch (error: any) {
+    throw new Error(`Failed to save artifact ${artifact}: ${error.message}`);
+  }
+
+  return artifact;
+}
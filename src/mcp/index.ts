@@ -1,2 +1,5 @@
+export * from "./content";
+export * from "./manager";
 export * from "./mcp";
 export * from "./mcp.types";
+export * from "./tool-filters";
@@ -0,0 +1,421 @@
+import type { ResolvedMentions } from "@messages";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { CallToolResult, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { Tool } from "@tools";
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import process from "node:process";
+
+import { toMcpToolResult } from "./content";
+import { connectMcpServer } from "./mcp";
+import type {
+  McpConfig,
+  McpPromptDefinition,
+  McpResource,
+  McpServerConfig,
+  McpServerState,
+  McpServerStatus,
+  McpToolCache,
+  McpToolDefinition,
+  McpToolResult,
+} from "./mcp.types";
+import { isServerToolIncluded } from "./tool-filters";
+
+export const MCP_TOOL_CACHE_FILE = "mcp-tools.json";
+
+// Cached tools are listed again after a day, servers may have been updated since
+const MCP_TOOL_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// `@server:resource` at the start of the message or after a space, e.g. `@docs:readme` or `@github:repo://owner/name`,
+// without trailing punctuation
+const RESOURCE_MENTION_REGEX = /(?<=^|\s)@([\w.-]+):(\S*[^\s.,;:!?)\]'"])/g;
+
+export interface McpManagerOptions {
+  config: McpConfig;
+  /** File caching the tools of each server, servers with cached tools are started on their first call */
+  cachePath?: string;
+  /**
+   * Environment variable mappings to apply to all MCPs.
+   * Format: { "@mcp_VAR_NAME": "value_or_env_var_name" }
+   */
+  envMapping?: Record<string, string | undefined>;
+}
+
+// Managers with running servers, their stdio servers are stopped when the process exits
+const openManagers = new Set<McpManager>();
+
+/**
+ * Run the configured MCP servers and expose their tools.
+ * A failing server only loses its own tools, servers with cached tools are started on their first call
+ * and a closed connection is opened again on the next call.
+ */
+export class McpManager {
+  private servers: McpServerConnection[];
+  private cacheQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private options: McpManagerOptions) {
+    this.servers = Object.entries(options.config).map(
+      ([name, config]) => new McpServerConnection(name, config, options.envMapping, server => this.onConnect(server))
+    );
+  }
+
+  /**
+   * Tools of every server, servers without cached tools are started to list them
+   */
+  async loadTools(): Promise<Tool[]> {
+    const cache = await this.readCache();
+    await Promise.all(
+      this.servers.map(async server => {
+        if (server.config.disabled) {
+          return;
+        }
+
+        const cached = cache[server.configHash];
+        if (cached && Date.now() - Date.parse(cached.updatedAt) < MCP_TOOL_CACHE_TTL_MS) {
+          server.tools = cached.tools;
+          server.prompts = cached.prompts || [];
+          return;
+        }
+
+        console.log(`Setting up MCP: ${server.name}`);
+        try {
+          await server.getClient();
+          console.log(`Loaded ${server.tools.length} tools from MCP ${server.name}`);
+        } catch (error: any) {
+          console.warn(`Failed to set up MCP ${server.name}: ${error.message}, its tools are unavailable`);
+        }
+      })
+    );
+
+    return this.getTools();
+  }
+
+  /**
+   * Tools of every server as last listed, a server started on its first call may list other tools than the cache
+   */
+  getTools(): Tool[] {
+    return this.servers.flatMap(server => this.createTools(server));
+  }
+
+  /**
+   * Prompts of the enabled servers, exposed as `/server:prompt` slash commands
+   */
+  getPrompts(): { server: string; prompt: McpPromptDefinition }[] {
+    return this.getEnabledServers().flatMap(server => server.prompts.map(prompt => ({ server: server.name, prompt })));
+  }
+
+  /**
+   * Text of a prompt filled with its arguments, embedded resources are inlined
+   */
+  async getPrompt(serverName: string, name: string, args: Record<string, string>): Promise<string> {
+    const client = await this.getServer(serverName).getClient();
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    return messages.map(({ content }) => formatContent(content)).join("\n\n");
+  }
+
+  /**
+   * Resources of the enabled servers, starting them when needed. A failing server only misses its resources.
+   */
+  async listResources(): Promise<McpResource[]> {
+    const resources = await Promise.all(this.getEnabledServers().map(server => server.listResources().catch(() => [])));
+    return resources.flat();
+  }
+
+  /**
+   * Read the resources mentioned as `@server:name` or `@server:uri` in a message, for configured servers only.
+   * Resources that cannot be read are reported as skipped.
+   */
+  async resolveMentions(message: string): Promise<ResolvedMentions> {
+    const serverNames = new Set(this.getEnabledServers().map(server => server.name));
+    const mentions = [...message.matchAll(RESOURCE_MENTION_REGEX)].filter(([, server]) => serverNames.has(server!));
+    const resolved = await Promise.all(
+      [...new Set(mentions.map(([mention]) => mention))].map(async mention => {
+        const [, serverName, reference] = mention.match(/^@([\w.-]+):(.+)$/)!;
+        try {
+          return { mention, content: await this.getServer(serverName!).readResource(reference!) };
+        } catch (error: any) {
+          return { mention, reason: `the MCP resource cannot be read: ${error.message}` };
+        }
+      })
+    );
+
+    return {
+      attachments: resolved.flatMap(({ mention, content }) =>
+        content === undefined ? [] : [{ source: mention, content }]
+      ),
+      skipped: resolved.flatMap(({ mention, reason }) => (reason === undefined ? [] : [{ mention, reason }])),
+    };
+  }
+
+  getStatus(): McpServerStatus[] {
+    return this.servers.map(server => ({
+      name: server.name,
+      state: server.state,
+      target: "url" in server.config ? server.config.url : [server.config.command, ...server.config.args].join(" "),
+      toolCount: this.createTools(server).length,
+      error: server.error,
+    }));
+  }
+
+  /**
+   * Close every connection, stopping stdio servers
+   */
+  async close(): Promise<void> {
+    openManagers.delete(this);
+    await Promise.all(this.servers.map(server => server.close()));
+  }
+
+  /**
+   * Stop the stdio servers right away, e.g. when the process exits
+   */
+  kill(): void {
+    this.servers.forEach(server => server.kill());
+  }
+
+  private getEnabledServers(): McpServerConnection[] {
+    return this.servers.filter(server => !server.config.disabled);
+  }
+
+  private getServer(name: string): McpServerConnection {
+    const server = this.servers.find(server => server.name === name);
+    if (!server) {
+      throw new Error(`Unknown MCP server ${name}`);
+    }
+
+    return server;
+  }
+
+  private createTools(server: McpServerConnection): Tool[] {
+    const { prefix = server.name } = server.config;
+    return server.tools
+      .filter(tool => isServerToolIncluded(server.config, tool.name))
+      .map(tool => ({
+        getDefinition: () => ({
+          type: "function" as const,
+          function: {
+            name: prefix ? `${prefix}-${tool.name}` : tool.name,
+            description: tool.description || `${server.name} ${tool.name} operation`,
+            parameters: tool.inputSchema as {
+              type: "object";
+              properties: Record<string, unknown>;
+              required?: string[];
+              additionalProperties: boolean;
+            },
+          },
+        }),
+        run: (parameters, context) => server.callTool(tool.name, parameters, context.workingDirectory),
+        isMCPTool: true,
+      }));
+  }
+
+  private onConnect(server: McpServerConnection): void {
+    openManagers.add(this);
+    registerExitHandler();
+
+    const { cachePath } = this.options;
+    if (!cachePath) {
+      return;
+    }
+
+    // Servers connect in parallel, the cache file is updated one at a time
+    this.cacheQueue = this.cacheQueue
+      .then(async () => {
+        const cache = await this.readCache();
+        cache[server.configHash] = {
+          tools: server.tools,
+          prompts: server.prompts,
+          updatedAt: new Date().toISOString(),
+        };
+        await fs.writeFile(cachePath, JSON.stringify(cache, null, 2));
+      })
+      .catch(error => console.warn(`Failed to cache the tools of MCP ${server.name}: ${error.message}`));
+  }
+
+  private async readCache(): Promise<McpToolCache> {
+    const { cachePath } = this.options;
+    if (!cachePath || !existsSync(cachePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(cachePath, "utf-8"));
+    } catch {
+      return {};
+    }
+  }
+}
+
+class McpServerConnection {
+  state: McpServerState;
+  tools: McpToolDefinition[] = [];
+  prompts: McpPromptDefinition[] = [];
+  error?: string;
+  readonly configHash: string;
+  private client?: Client;
+  private connecting?: Promise<Client>;
+
+  constructor(
+    readonly name: string,
+    readonly config: McpServerConfig,
+    private envMapping: Record<string, string | undefined> = {},
+    private onConnect: (server: McpServerConnection) => void
+  ) {
+    // Tool filters do not change what the server lists
+    const connection =
+      "url" in config
+        ? [config.url, config.transport, config.headers]
+        : [config.command, config.args, config.envMapping];
+    this.configHash = createHash("sha256").update(JSON.stringify(connection)).digest("hex").slice(0, 16);
+    this.state = config.disabled ? "disabled" : "idle";
+  }
+
+  /**
+   * Connected client, starting the server on the first call and after its connection was closed
+   */
+  getClient(): Promise<Client> {
+    if (this.config.disabled) {
+      return Promise.reject(new Error(`MCP ${this.name} is disabled`));
+    }
+    if (this.client) {
+      return Promise.resolve(this.client);
+    }
+
+    this.connecting ??= this.connect().finally(() => (this.connecting = undefined));
+    return this.connecting;
+  }
+
+  async callTool(name: string, args: Record<string, any>, workingDirectory: string): Promise<McpToolResult> {
+    try {
+      const client = await this.getClient();
+      const result = await client.callTool({ name, arguments: args });
+      return await toMcpToolResult(result as CallToolResult, workingDirectory);
+    } catch (error: any) {
+      // Reported to the model instead of failing the whole turn
+      return { success: false, error: `MCP ${this.name} failed to run ${name}: ${error.message}` };
+    }
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    const client = await this.getClient();
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    const { resources } = await client.listResources();
+    return resources.map(({ uri, name, description, mimeType }) => ({
+      server: this.name,
+      uri,
+      name,
+      description,
+      mimeType,
+    }));
+  }
+
+  /**
+   * Text of a resource by name or uri, binary contents are left out
+   */
+  async readResource(reference: string): Promise<string> {
+    const client = await this.getClient();
+    const resource = (await this.listResources()).find(({ name, uri }) => name === reference || uri === reference);
+    if (!resource && !reference.includes("://")) {
+      throw new Error(`no resource named ${reference} on MCP ${this.name}`);
+    }
+
+    const { contents } = await client.readResource({ uri: resource?.uri || reference });
+    return contents
+      .map(content =>
+        "text" in content ? content.text : `[${content.mimeType || "binary"} content of ${content.uri}]`
+      )
+      .join("\n");
+  }
+
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+    this.state = this.config.disabled ? "disabled" : "idle";
+    await client?.close().catch(() => undefined);
+  }
+
+  kill(): void {
+    const transport = this.client?.transport;
+    if (transport instanceof StdioClientTransport && transport.pid) {
+      try {
+        process.kill(transport.pid);
+      } catch {
+        // Already stopped
+      }
+    }
+  }
+
+  private async connect(): Promise<Client> {
+    this.state = "connecting";
+    let client: Client | undefined;
+    try {
+      client = await connectMcpServer(this.name, this.config, this.envMapping);
+      const { tools } = await client.listTools();
+      this.tools = tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+      if (client.getServerCapabilities()?.prompts) {
+        const { prompts } = await client.listPrompts();
+        this.prompts = prompts.map(({ name, description, arguments: args }) => ({
+          name,
+          description,
+          arguments: args,
+        }));
+      }
+    } catch (error: any) {
+      await client?.close().catch(() => undefined);
+      this.state = "failed";
+      this.error = error.message;
+      throw error;
+    }
+
+    const connected = client;
+    connected.onclose = () => {
+      if (this.client === connected) {
+        this.client = undefined;
+        this.state = "disconnected";
+      }
+    };
+    this.client = connected;
+    this.state = "connected";
+    this.error = undefined;
+    this.onConnect(this);
+
+    return connected;
+  }
+}
+
+/**
+ * Text of a prompt message content, embedded resources are inlined
+ */
+function formatContent(content: PromptMessage["content"]): string {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "resource":
+      return "text" in content.resource
+        ? `<attachment source="${content.resource.uri}">\n${content.resource.text}\n</attachment>`
+        : `[${content.resource.mimeType || "binary"} content of ${content.resource.uri}]`;
+    case "resource_link":
+      return `[resource ${content.uri}]`;
+    default:
+      return `[${content.type} content]`;
+  }
+}
+
+let exitHandlerRegistered = false;
+
+function registerExitHandler(): void {
+  if (!exitHandlerRegistered) {
+    exitHandlerRegistered = true;
+    process.on("exit", () => openManagers.forEach(manager => manager.kill()));
+    // Signals end the process without the exit event, exiting with the usual code runs it
+    for (const signal of ["SIGTERM", "SIGHUP"] as const) {
+      process.once(signal, () => process.exit(128 + os.constants.signals[signal]));
+    }
+  }
+}
@@ -1,86 +1,68 @@
-import type { AgentContext } from "@agents";
-import type { McpConfig } from "@mcp/mcp.types";
+import type { McpRemoteServerConfig, McpServerConfig, McpStdioServerConfig } from "@mcp/mcp.types";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import type { Tool } from "@tools";
+import { StreamableHTTPClientTransport, StreamableHTTPError } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 
 import { execSync } from "node:child_process";
 import * as path from "node:path";
 
 import { version } from "../../package.json";
 
+// Statuses of servers without streamable HTTP, the spec falls back to the HTTP+SSE transport on them only
+const SSE_FALLBACK_STATUSES = [404, 405];
+
+let npxPath: string | undefined;
+
 /**
- * Options for creating tools from MCP config
+ * Connect to an MCP server, starting it for stdio servers
  */
-export interface CreateActionsFromMcpConfigOptions {
-  /** The MCP configuration object */
-  config: McpConfig;
-  /**
-   * Environment variable mappings to apply to all MCPs.
-   * Format: { "@mcp_VAR_NAME": "value_or_env_var_name" }
-   * If the value is an environment variable name, its value will be used.
-   * Otherwise, the literal value will be used.
-   */
-  envMapping?: Record<string, string | undefined>;
-  /** IDs of tools to exclude */
-  excludedTools?: string[];
-  /** IDs of tools to include (if empty, all actions except excluded ones are included) */
-  includedTools?: string[];
+export async function connectMcpServer(
+  mcpName: string,
+  mcpConfig: McpServerConfig,
+  globalEnvMapping: Record<string, string | undefined> = {}
+): Promise<Client> {
+  return "url" in mcpConfig
+    ? connectRemoteServer(mcpName, mcpConfig)
+    : connectStdioServer(mcpName, mcpConfig, globalEnvMapping);
 }
 
 /**
- * Creates tools from an MCP configuration
+ * Full path of npx, the npm prefix is only looked up for the first server started with npx
  */
-export async function createToolsFromMcpConfig({
-  config = {},
-  envMapping: globalEnvMapping = {},
-  excludedTools = [],
-  includedTools = [],
-}: CreateActionsFromMcpConfigOptions): Promise<Tool[]> {
-  const actions: Tool[] = [];
-
-  // Get npm prefix to find npx
-  const npmPrefix = execSync("npm prefix -g").toString().trim();
-  const npxPath = path.join(npmPrefix, "bin", "npx");
-
-  for (const [mcpName, mcpConfig] of Object.entries(config)) {
-    console.log(`Setting up MCP: ${mcpName}`);
-
-    // Create MCP client
-    const client = new Client(
-      {
-        name: `Codebro ${mcpName} Client`,
-        version,
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    // Map environment variables if mappings are provided
-    const mappedEnv: Record<string, string> = {};
-
-    // First apply MCP-specific env mapping
-    if (mcpConfig.envMapping) {
-      for (const [mcpVarName, valueOrEnvVar] of Object.entries(mcpConfig.envMapping)) {
-        // Skip undefined values
-        if (valueOrEnvVar === undefined) continue;
-
-        // Check if this is an environment variable reference
-        if (valueOrEnvVar in process.env) {
-          // Use the environment variable value (using nullish coalescing to handle undefined)
-          mappedEnv[mcpVarName] = process.env[valueOrEnvVar] ?? "";
-        } else {
-          // Use the literal value
-          mappedEnv[mcpVarName] = valueOrEnvVar;
-        }
-      }
+function getNpxPath(): string {
+  if (!npxPath) {
+    const npmPrefix = execSync("npm prefix -g").toString().trim();
+    npxPath = path.join(npmPrefix, "bin", "npx");
+  }
+
+  return npxPath;
+}
+
+function createClient(mcpName: string): Client {
+  return new Client(
+    {
+      name: `Codebro ${mcpName} Client`,
+      version,
+    },
+    {
+      // Tools, resources and prompts are server capabilities, the client offers none of its own
+      capabilities: {},
     }
+  );
+}
 
-    // Then apply global env mapping (takes precedence over MCP-specific)
-    for (const [mcpVarName, valueOrEnvVar] of Object.entries(globalEnvMapping)) {
+async function connectStdioServer(
+  mcpName: string,
+  mcpConfig: McpStdioServerConfig,
+  globalEnvMapping: Record<string, string | undefined>
+): Promise<Client> {
+  // Map environment variables if mappings are provided
+  const mappedEnv: Record<string, string> = {};
+
+  // First apply MCP-specific env mapping
+  if (mcpConfig.envMapping) {
+    for (const [mcpVarName, valueOrEnvVar] of Object.entries(mcpConfig.envMapping)) {
       // Skip undefined values
       if (valueOrEnvVar === undefined) continue;
 
@@ -93,104 +75,100 @@ export async function createToolsFromMcpConfig({
         mappedEnv[mcpVarName] = valueOrEnvVar;
       }
     }
+  }
 
-    // Create args array with config
-    const args = [...mcpConfig.args];
-    if (Object.keys(mappedEnv).length > 0) {
-      args.push("--config", JSON.stringify(mappedEnv));
+  // Then apply global env mapping (takes precedence over MCP-specific)
+  for (const [mcpVarName, valueOrEnvVar] of Object.entries(globalEnvMapping)) {
+    // Skip undefined values
+    if (valueOrEnvVar === undefined) continue;
+
+    // Check if this is an environment variable reference
+    if (valueOrEnvVar in process.env) {
+      // Use the environment variable value (using nullish coalescing to handle undefined)
+      mappedEnv[mcpVarName] = process.env[valueOrEnvVar] ?? "";
+    } else {
+      // Use the literal value
+      mappedEnv[mcpVarName] = valueOrEnvVar;
     }
+  }
 
-    // Create transport with full npx path
-    const transport = new StdioClientTransport({
-      command: mcpConfig.command === "npx" ? npxPath : mcpConfig.command,
-      args,
-      env: {
-        // Include any direct environment variables from mappings
-        ...mappedEnv,
-        // Include the original envMapping for backward compatibility
-        ...(mcpConfig.envMapping as Record<string, string>),
-        // Include all environment variables
-        ...(Object.fromEntries(Object.entries(process.env).filter(([_, v]) => v !== undefined)) as Record<
-          string,
-          string
-        >),
-      },
-    });
+  // Create args array with config
+  const args = [...mcpConfig.args];
+  if (Object.keys(mappedEnv).length > 0) {
+    args.push("--config", JSON.stringify(mappedEnv));
+  }
 
-    try {
-      // Connect to MCP
-      await client.connect(transport);
-      const mcpTools = await client.listTools();
-      // console.log("Raw mcpTools response:", JSON.stringify(mcpTools, null, 2));
-
-      // Extract mcpTools array from response
-      const toolsArray = mcpTools.tools || [];
-      const toolNames: string[] = [];
-
-      if (Array.isArray(toolsArray)) {
-        for (const tool of toolsArray) {
-          const toolId = tool.name;
-
-          // Skip this action if it's in the excludedActions list
-          if (excludedTools.includes(toolId)) {
-            console.log(`Skipping excluded action: ${toolId}`);
-            continue;
-          }
-
-          // Skip this action if includedActions is not empty and this action is not in the list
-          if (includedTools.length > 0 && !includedTools.includes(toolId)) {
-            continue;
-          }
-
-          actions.push({
-            getDefinition: () => {
-              return {
-                type: "function" as const,
-                function: {
-                  name: `${mcpName}-${toolId}`,
-                  description: tool.description || `${mcpName} ${toolId} operation`,
-                  parameters: tool.inputSchema as {
-                    type: "object";
-                    properties: Record<string, unknown>;
-                    required?: string[];
-                    additionalProperties: boolean;
-                  },
-                },
-              };
-            },
-
-            run: async (parameters, _: AgentContext) => {
-              try {
-                const result = await client.callTool({
-                  name: tool.name,
-                  arguments: parameters,
-                });
-
-                // Extract result from MCP response
-                if (result?.content) {
-                  return result.content;
-                }
-                return JSON.stringify(result);
-              } catch (error) {
-                console.error(`Error calling ${mcpName} ${toolId}:`, error);
-                throw error;
-              }
-            },
-
-            isMCPTool: true,
-          });
-
-          toolNames.push(toolId);
-        }
-      }
+  // Create transport with full npx path
+  const transport = new StdioClientTransport({
+    command: mcpConfig.command === "npx" ? getNpxPath() : mcpConfig.command,
+    args,
+    env: {
+      // Include any direct environment variables from mappings
+      ...mappedEnv,
+      // Include the original envMapping for backward compatibility
+      ...(mcpConfig.envMapping as Record<string, string>),
+      // Include all environment variables
+      ...(Object.fromEntries(Object.entries(process.env).filter(([_, v]) => v !== undefined)) as Record<
+        string,
+        string
+      >),
+    },
+  });
+
+  const client = createClient(mcpName);
+  await client.connect(transport);
+  return client;
+}
 
-      console.log(
-        `Loaded ${toolNames.length > 0 ? "@tools [" + toolNames.join(",") + "]" : "0 tools"} from MCP ${mcpName}`
-      );
+/**
+ * Connect over streamable HTTP, or SSE for servers of the older HTTP+SSE transport.
+ * Without a configured transport, SSE is only tried when the server does not accept streamable HTTP requests,
+ * authentication and network errors are reported as is.
+ */
+async function connectRemoteServer(
+  mcpName: string,
+  { url, transport, headers }: McpRemoteServerConfig
+): Promise<Client> {
+  const serverUrl = new URL(url);
+  const requestInit: RequestInit = { headers: resolveHeaders(mcpName, headers) };
+
+  if (transport !== "sse") {
+    const client = createClient(mcpName);
+    try {
+      await client.connect(new StreamableHTTPClientTransport(serverUrl, { requestInit }));
+      return client;
     } catch (error) {
-      console.error(`Error setting up ${mcpName}:`, error);
-      throw error;
+      await client.close().catch(() => undefined);
+      if (transport === "http" || !isSseFallbackError(error)) {
+        throw error;
+      }
     }
   }
-  return actions;
+
+  const client = createClient(mcpName);
+  await client.connect(new SSEClientTransport(serverUrl, { requestInit }));
+  return client;
+}
+
+function isSseFallbackError(error: unknown): boolean {
+  return error instanceof StreamableHTTPError && SSE_FALLBACK_STATUSES.includes(error.code ?? 0);
+}
+
+/**
+ * Replace `${VAR}` in header values with environment variables
+ */
+function resolveHeaders(mcpName: string, headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      value.replace(/\$\{(\w+)\}/g, (_, variable: string) => {
+        const resolved = process.env[variable];
+        if (resolved === undefined) {
+          throw new Error(`Failed to set header ${name} of MCP ${mcpName}: ${variable} is not set`);
+        }
+
+        return resolved;
+      }),
+    ])
+  );
 }
@@ -1,13 +1,111 @@
+/**
+ * Options shared by stdio and remote servers, patterns match the tool names of the server and `*` matches anything
+ */
+export interface McpServerOptions {
+  /** Keep the server configured without starting it */
+  disabled?: boolean;
+  /** Only expose these tools, all by default */
+  includeTools?: string[];
+  excludeTools?: string[];
+  /** Prepended to tool names as `<prefix>-<tool>`, defaults to the server name, "" keeps the tool names */
+  prefix?: string;
+}
+
+/**
+ * MCP server started as a local command, talking over stdio
+ */
+export interface McpStdioServerConfig extends McpServerOptions {
+  command: string;
+  args: string[];
+  /**
+   * Environment variable mapping for this MCP.
+   * Format: { "@mcp_VAR_NAME": "value_or_env_var_name" }
+   * If the value is an environment variable name, its value will be used.
+   * Otherwise, the literal value will be used.
+   */
+  envMapping?: Record<string, string | undefined>;
+}
+
+/**
+ * MCP transports over HTTP: "http" is streamable HTTP, "sse" the older HTTP+SSE transport
+ */
+export type McpRemoteTransport = "http" | "sse";
+
+/**
+ * MCP server hosted elsewhere, reached by URL
+ */
+export interface McpRemoteServerConfig extends McpServerOptions {
+  url: string;
+  /** Defaults to streamable HTTP, falling back to SSE when the server does not support it */
+  transport?: McpRemoteTransport;
+  /** Sent with every request, `${VAR}` in values is replaced with the environment variable, e.g. for tokens */
+  headers?: Record<string, string>;
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpRemoteServerConfig;
+
 export interface McpConfig {
-  [key: string]: {
-    command: string;
-    args: string[];
-    /**
-     * Environment variable mapping for this MCP.
-     * Format: { "@mcp_VAR_NAME": "value_or_env_var_name" }
-     * If the value is an environment variable name, its value will be used.
-     * Otherwise, the literal value will be used.
-     */
-    envMapping?: Record<string, string | undefined>;
-  };
+  [key: string]: McpServerConfig;
+}
+
+/**
+ * idle servers are not started yet, their tools come from the cache until the first call
+ */
+export type McpServerState = "idle" | "connecting" | "connected" | "disconnected" | "failed" | "disabled";
+
+export interface McpServerStatus {
+  name: string;
+  state: McpServerState;
+  /** Command of stdio servers, url of remote ones */
+  target: string;
+  toolCount: number;
+  /** Last connection or tool listing error */
+  error?: string;
+}
+
+/**
+ * Tool of an MCP server as listed by tools/list
+ */
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Result of an MCP tool call as sent to the model, `isError` results are failures
+ */
+export interface McpToolResult {
+  success: boolean;
+  content?: string;
+  error?: string;
+  /** Images and other binary content saved under .codebro/artifacts, relative to the project */
+  artifacts?: string[];
+}
+
+/**
+ * Prompt template of an MCP server as listed by prompts/list
+ */
+export interface McpPromptDefinition {
+  name: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+/**
+ * Resource of an MCP server, mentioned in messages as `@server:name` or `@server:uri`
+ */
+export interface McpResource {
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Tools and prompts listed by each server, keyed by a hash of the server config so edited servers are listed again
+ */
+export interface McpToolCache {
+  [configHash: string]: { tools: McpToolDefinition[]; prompts?: McpPromptDefinition[]; updatedAt: string };
 }
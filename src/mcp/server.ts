@@ -0,0 +1,95 @@
+import type { AgentContext } from "@agents";
+import { loadGlobalConfig } from "@configs";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { CallToolRequestSchema, type CallToolResult, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { PermissionManager } from "@permissions";
+import { getCodeTools, removeRedundantTools, type Tool, type ToolContext } from "@tools";
+
+import process from "node:process";
+import { Writable } from "node:stream";
+
+import { version } from "../../package.json";
+
+type ServedToolContext = ToolContext & Pick<AgentContext, "config" | "permissions">;
+
+// Tools driving codebro's own agent loop, MCP clients plan and switch modes with their own model
+const AGENT_LOOP_TOOLS = ["agentModeSwitch", "planner"];
+
+/**
+ * Publish the built-in tools as an MCP server on stdin/stdout, tools listed in `excludeTools` are left out.
+ * Resolves with the exit code once the client disconnects.
+ */
+export async function serveMcpStdio(): Promise<number> {
+  // Keep stdout for protocol messages only, tool logs go to stderr
+  const write = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  console.log = console.error;
+
+  const context = await createToolContext();
+  const tools = removeRedundantTools(getCodeTools(), [...AGENT_LOOP_TOOLS, ...context.config.excludeTools]);
+
+  const server = new Server({ name: "codebro", version }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: tools.map(tool => {
+      const { name, description, parameters } = tool.getDefinition().function;
+      return { name, description, inputSchema: { type: "object" as const, ...parameters } };
+    }),
+  }));
+  server.setRequestHandler(CallToolRequestSchema, ({ params }) =>
+    callTool(tools, context, params.name, params.arguments || {})
+  );
+
+  const closed = new Promise<void>(resolve => (server.onclose = resolve));
+  const stdout = new Writable({ write: (chunk, _encoding, callback) => write(chunk, callback) });
+  await server.connect(new StdioServerTransport(process.stdin, stdout));
+  await closed;
+
+  return 0;
+}
+
+/**
+ * Context of the served tools. They never call a model or track usage, so only permissions are set up.
+ */
+async function createToolContext(): Promise<ServedToolContext> {
+  const workingDirectory = process.cwd();
+  const { config } = await loadGlobalConfig(workingDirectory);
+
+  return {
+    config,
+    workingDirectory,
+    // The MCP client asks its user before calling a tool, deny rules of config.json still apply
+    permissions: new PermissionManager(config.permissions, true),
+  };
+}
+
+async function callTool(
+  tools: Tool[],
+  context: ServedToolContext,
+  name: string,
+  args: Record<string, any>
+): Promise<CallToolResult> {
+  const tool = tools.find(tool => tool.getDefinition().function.name === name);
+  if (!tool) {
+    return toToolResult({ success: false, error: `Tool ${name} not found` });
+  }
+
+  try {
+    if (tool.getApprovalDetails) {
+      const details = await tool.getApprovalDetails(args, context);
+      const permission = await context.permissions.check(name, args, details);
+      if (!permission.allowed) {
+        return toToolResult({ success: false, error: permission.reason });
+      }
+    }
+
+    return toToolResult(await tool.run(args, context));
+  } catch (error: any) {
+    return toToolResult({ success: false, error: error.message });
+  }
+}
+
+function toToolResult(result: any): CallToolResult {
+  const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+  return { content: [{ type: "text", text }], isError: result?.success === false };
+}
@@ -0,0 +1,41 @@
+import type { AgentContext } from "@agents";
+import type { Tool } from "@tools";
+
+import type { McpServerOptions } from "./mcp.types";
+
+// Used for agents without an entry in agentMcpTools, the prompter only needs a browser to read pages
+export const DEFAULT_AGENT_MCP_TOOLS: Record<string, string[]> = {
+  prompter: ["puppeteer*"],
+};
+
+/**
+ * Whether a tool name matches a pattern, `*` matches anything
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  const regex = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*+/g, ".*")}$`);
+  return regex.test(toolName);
+}
+
+/**
+ * Whether a server exposes one of its tools, by the tool name on the server
+ */
+export function isServerToolIncluded({ includeTools, excludeTools = [] }: McpServerOptions, toolName: string): boolean {
+  const matches = (pattern: string) => matchesToolPattern(pattern, toolName);
+  return (!includeTools || includeTools.some(matches)) && !excludeTools.some(matches);
+}
+
+/**
+ * MCP tools an agent type may use, by the allowlist of agentMcpTools in config.json
+ */
+export function getAgentMcpTools(context: AgentContext, agentType: string): Tool[] {
+  const tools = context.mcp?.getTools() || [];
+  const allowlist = context.config.agentMcpTools?.[agentType] ?? DEFAULT_AGENT_MCP_TOOLS[agentType];
+  if (!allowlist) {
+    return tools;
+  }
+
+  return tools.filter(tool => {
+    const toolName = tool.getDefinition().function.name;
+    return allowlist.some(pattern => matchesToolPattern(pattern, toolName));
+  });
+}
@@ -0,0 +1,42 @@
+import type { Message, MessageImage } from "./messages.type";
+
+/**
+ * Text of a message content, parts are joined with new lines and image parts left out
+ */
+export function getTextContent(content: Message["content"]): string {
+  if (!Array.isArray(content)) {
+    return content || "";
+  }
+
+  return content
+    .flatMap(part => (typeof part === "string" ? [part] : part.type === "text" ? [part.text] : []))
+    .join("\n");
+}
+
+/**
+ * Images of a message content, decoded from their data URLs
+ */
+export function getImageContent(content: Message["content"]): MessageImage[] {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  return content.flatMap(part => {
+    const match =
+      typeof part !== "string" && part.type === "image_url"
+        ? part.image_url.url.match(/^data:([^;]+);base64,(.*)$/s)
+        : null;
+    return match ? [{ source: "message", mimeType: match[1]!, data: match[2]! }] : [];
+  });
+}
+
+/**
+ * Messages with their image parts left out, the text parts (naming the images) are kept
+ */
+export function removeImageParts(messages: Message[]): Message[] {
+  return messages.map(message =>
+    Array.isArray(message.content) && getImageContent(message.content).length
+      ? { ...message, content: getTextContent(message.content) }
+      : message
+  );
+}
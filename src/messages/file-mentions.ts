@@ -0,0 +1,125 @@
+import { isIgnoredPath, isOutsideProject } from "@filesystem";
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import { isImagePath } from "./images";
+import type { ResolvedMentions } from "./messages.type";
+
+// Larger files are only inlined by line range
+const MAX_MENTION_BYTES = 100 * 1024;
+const MAX_DIRECTORY_ENTRIES = 200;
+
+// `@src/foo.ts`, `@src/foo.ts:10-40` or `@src/dir/` at the start of the message or after a space,
+// without trailing punctuation
+const FILE_MENTION_REGEX = /(?<=^|\s)@([\w./-]*[\w/-])(?::(\d+)(?:-(\d+))?)?(?=$|[\s,;!?)\]'"]|:(?!\d)|\.(?:\s|$))/g;
+
+/**
+ * Inline the files mentioned as `@path`, `@path:start-end` or `@dir/` in a message, relative to the working directory.
+ * Directories are inlined as the list of their files, existing files that are not inlined are reported as skipped. Mentions of missing files are left as text, e.g. `@username`,
+ * and images are sent as image parts instead.
+ */
+export async function resolveFileMentions(
+  message: string,
+  workingDirectory: string,
+  ignoreFiles: string[] = []
+): Promise<ResolvedMentions> {
+  const result: ResolvedMentions = { attachments: [], skipped: [] };
+  const mentions = new Map([...message.matchAll(FILE_MENTION_REGEX)].map(match => [match[0], match]));
+
+  for (const [mention, [, filePath, start, end]] of mentions) {
+    if (isImagePath(filePath!)) {
+      continue;
+    }
+
+    const absolutePath = path.resolve(workingDirectory, filePath!);
+    const stats = await fs.stat(absolutePath).catch(() => null);
+    const isDirectory = Boolean(stats?.isDirectory());
+    // Directories are only mentioned with a trailing slash, `@name` is more likely meant as text
+    if (!stats || isDirectory !== filePath!.endsWith("/") || (isDirectory && start)) {
+      continue;
+    }
+
+    const relativePath = path.relative(workingDirectory, absolutePath);
+    if (isOutsideProject(relativePath)) {
+      result.skipped.push({ mention, reason: "it is outside the project" });
+      continue;
+    }
+    if (isIgnoredPath(relativePath, ignoreFiles)) {
+      result.skipped.push({ mention, reason: "it matches ignoreFiles in config.json" });
+      continue;
+    }
+
+    try {
+      const source = mention.slice(1);
+      const content = isDirectory
+        ? await listDirectory(absolutePath, workingDirectory, ignoreFiles)
+        : await readMentionedFile(absolutePath, start ? Number(start) : undefined, end ? Number(end) : undefined);
+      result.attachments.push({ source, content });
+    } catch (error: any) {
+      result.skipped.push({ mention, reason: error.message });
+    }
+  }
+
+  return result;
+}
+
+async function readMentionedFile(absolutePath: string, start?: number, end?: number): Promise<string> {
+  const data = await fs.readFile(absolutePath);
+  if (data.subarray(0, 8000).includes(0)) {
+    throw new Error("it is a binary file");
+  }
+
+  const content = data.toString("utf-8");
+  if (start === undefined) {
+    if (data.length > MAX_MENTION_BYTES) {
+      throw new Error(`it is larger than ${MAX_MENTION_BYTES / 1024} KB, mention a line range e.g. @file:1-100`);
+    }
+    return content;
+  }
+
+  const lines = content.replace(/\n$/, "").split("\n");
+  if (start < 1 || start > lines.length) {
+    throw new Error(`the file has ${lines.length} lines`);
+  }
+  if (end !== undefined && end < start) {
+    throw new Error(`the range ends before line ${start}`);
+  }
+
+  const range = lines.slice(start - 1, Math.min(end ?? start, lines.length)).join("\n");
+  if (Buffer.byteLength(range) > MAX_MENTION_BYTES) {
+    throw new Error(`the lines are larger than ${MAX_MENTION_BYTES / 1024} KB, mention a smaller range`);
+  }
+  return range;
+}
+
+/**
+ * Files under a directory relative to the working directory, ignored and hidden entries are left out
+ */
+async function listDirectory(directory: string, workingDirectory: string, ignoreFiles: string[]): Promise<string> {
+  const files: string[] = [];
+  let truncated = false;
+
+  const walk = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = path.relative(workingDirectory, path.join(current, entry.name));
+      if (entry.name.startsWith(".") || isIgnoredPath(relativePath, ignoreFiles)) {
+        continue;
+      }
+      if (files.length >= MAX_DIRECTORY_ENTRIES) {
+        truncated = true;
+        return;
+      }
+
+      if (entry.isDirectory()) {
+        await walk(path.join(current, entry.name));
+      } else {
+        files.push(relativePath);
+      }
+    }
+  };
+  await walk(directory);
+
+  return [...files, ...(truncated ? [`... more than ${MAX_DIRECTORY_ENTRIES} files`] : [])].join("\n") || "(empty)";
+}
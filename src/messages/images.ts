@@ -0,0 +1,91 @@
+import { isIgnoredPath, isOutsideProject } from "@filesystem";
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { MessageImage, ResolvedImageMentions } from "./messages.type";
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// Providers reject larger images, Anthropic has the lowest limit
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// `@path/to/screenshot.png` at the start of the message or after a space, without trailing punctuation
+const IMAGE_MENTION_REGEX = /(?<=^|\s)@(\S+\.(?:png|jpe?g|gif|webp))(?=$|[\s,;:!?)\]'"]|\.(?:\s|$))/gi;
+
+/**
+ * Whether a path has an image extension supported as attachment
+ */
+export function isImagePath(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+/**
+ * Read an image to attach to a message, relative paths are resolved against the working directory
+ */
+export async function loadImage(filePath: string, workingDirectory: string): Promise<MessageImage> {
+  try {
+    return await readImage(filePath, workingDirectory);
+  } catch (error: any) {
+    throw new Error(`Failed to attach ${filePath}: ${error.message}`);
+  }
+}
+
+/**
+ * Load the images mentioned as `@path/to/image.png` in a message, mentions of missing files are left as text.
+ * Images that are ignored or cannot be read are reported as skipped.
+ */
+export async function resolveImageMentions(
+  message: string,
+  workingDirectory: string,
+  ignoreFiles: string[] = []
+): Promise<ResolvedImageMentions> {
+  const result: ResolvedImageMentions = { images: [], skipped: [] };
+  const paths = [...new Set([...message.matchAll(IMAGE_MENTION_REGEX)].map(([, filePath]) => filePath!))];
+
+  for (const filePath of paths) {
+    const absolutePath = path.resolve(workingDirectory, filePath);
+    if (!(await fs.stat(absolutePath).catch(() => null))) {
+      continue;
+    }
+
+    const mention = `@${filePath}`;
+    const relativePath = path.relative(workingDirectory, absolutePath);
+    if (isOutsideProject(relativePath)) {
+      result.skipped.push({ mention, reason: "it is outside the project" });
+      continue;
+    }
+    if (isIgnoredPath(relativePath, ignoreFiles)) {
+      result.skipped.push({ mention, reason: "it matches ignoreFiles in config.json" });
+      continue;
+    }
+
+    try {
+      result.images.push(await readImage(filePath, workingDirectory));
+    } catch (error: any) {
+      result.skipped.push({ mention, reason: error.message });
+    }
+  }
+
+  return result;
+}
+
+async function readImage(filePath: string, workingDirectory: string): Promise<MessageImage> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    throw new Error(`unsupported image type, use one of ${Object.keys(IMAGE_MIME_TYPES).join(", ")}`);
+  }
+
+  const data = await fs.readFile(path.resolve(workingDirectory, filePath));
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`it is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  return { source: filePath, mimeType, data: data.toString("base64") };
+}
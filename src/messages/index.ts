@@ -2,3 +2,6 @@ export * from "./messages.type";
 export * from "./system-message";
 export * from "./user-message";
 export * from "./assistant-message";
+export * from "./content";
+export * from "./images";
+export * from "./file-mentions";
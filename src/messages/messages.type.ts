@@ -1,7 +1,8 @@
 export interface Message {
   role: "system" | "user" | "assistant" | "function" | "tool";
   name?: string;
-  content?: string | string[];
+  /** Text, or OpenAI style content parts for messages with images */
+  content?: string | string[] | MessageContentPart[];
   function_call?: {
     name: string;
     arguments: string;
@@ -17,3 +18,41 @@ export interface Message {
   }[];
   tool_call_id?: string;
 }
+
+/**
+ * Content attached to a user message, e.g. an MCP resource mentioned as `@server:resource`
+ */
+export interface MessageAttachment {
+  /** Where the content comes from, shown to the model */
+  source: string;
+  content: string;
+}
+
+/**
+ * Attachments of the mentions in a message, `skipped` explains the mentions that could not be attached
+ */
+export interface ResolvedMentions {
+  attachments: MessageAttachment[];
+  skipped: { mention: string; reason: string }[];
+}
+
+/**
+ * Images of the `@path/to/image.png` mentions in a message, `skipped` explains the images that could not be attached
+ */
+export interface ResolvedImageMentions {
+  images: MessageImage[];
+  skipped: ResolvedMentions["skipped"];
+}
+
+export type MessageContentPart = { type: "text"; text: string } | { type: "image_url"; image_url: { url: string } };
+
+/**
+ * Image sent with a user message, e.g. a screenshot mentioned as `@path/to/screenshot.png`
+ */
+export interface MessageImage {
+  /** Where the image comes from, e.g. its path */
+  source: string;
+  mimeType: string;
+  /** Base64 encoded content */
+  data: string;
+}
@@ -1,11 +1,30 @@
-import type { Message } from "./messages.type";
+import type { Message, MessageAttachment, MessageImage } from "./messages.type";
 
 /**
- * Creates a user message with optional selected code
+ * Creates a user message, attachments are appended after the message text and images sent as image parts.
+ * Each image is preceded by a `[image <source>]` text part, left in place once the image part is removed.
  */
-export function createUserMessage(message: string): Message {
+export function createUserMessage(
+  message: string,
+  attachments: MessageAttachment[] = [],
+  images: MessageImage[] = []
+): Message {
+  const attached = attachments.map(
+    ({ source, content }) => `<attachment source="${source}">\n${content}\n</attachment>`
+  );
+  const text = [message, ...attached].join("\n\n");
+  if (!images.length) {
+    return { role: "user", content: text };
+  }
+
   return {
     role: "user",
-    content: message,
+    content: [
+      { type: "text", text },
+      ...images.flatMap(({ source, mimeType, data }) => [
+        { type: "text" as const, text: `[image ${source}]` },
+        { type: "image_url" as const, image_url: { url: `data:${mimeType};base64,${data}` } },
+      ]),
+    ],
   };
 }
@@ -0,0 +1,3 @@
+export * from "./permissions.types";
+export * from "./permissions";
+export * from "./terminal";
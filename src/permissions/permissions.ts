@@ -0,0 +1,142 @@
+import type { PermissionsConfig } from "@configs";
+import { updateGlobalConfigFile } from "@configs/global";
+
+import type { ApprovalHandler, ApprovalRequest, PermissionResult, ToolApprovalDetails } from "./permissions.types";
+
+const COMMAND_TOOL_NAME = "executeCommand";
+// What `*` matches in allow rules of commands: anything but `;`, `&`, `|`, backticks, `$(` and new lines
+const COMMAND_WILDCARD = "(?:(?!\\$\\()[^;&|`\\n\\r])*";
+
+/**
+ * Gate destructive tool calls behind user approval.
+ * Rules look like `toolName` or `toolName(pattern)` where `*` in pattern matches anything and `\*` a literal `*`,
+ * e.g. `editFile`, `editFile(src/**)` or `executeCommand(npm run *)`.
+ */
+export class PermissionManager {
+  private sessionRules: string[] = [];
+  private handler?: ApprovalHandler;
+  // Tools run in parallel, approvals are asked one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private config: PermissionsConfig = {},
+    private autoApprove = false
+  ) {}
+
+  setApprovalHandler(handler?: ApprovalHandler): void {
+    this.handler = handler;
+  }
+
+  setAutoApprove(autoApprove: boolean): void {
+    this.autoApprove = autoApprove;
+  }
+
+  /**
+   * Check whether a tool call may run, asking the user when no rule decides it
+   */
+  async check(toolName: string, args: Record<string, any>, details: ToolApprovalDetails): Promise<PermissionResult> {
+    const denyRule = (this.config.deny || []).find(rule => matchesRule(rule, toolName, details.target));
+    if (denyRule) {
+      return { allowed: false, reason: `Denied by permission rule '${denyRule}' in config.json` };
+    }
+
+    const allowRules = [...(this.config.allow || []), ...this.sessionRules];
+    if (this.autoApprove || allowRules.some(rule => matchesRule(rule, toolName, details.target, true))) {
+      return { allowed: true };
+    }
+
+    if (!this.handler) {
+      return {
+        allowed: false,
+        reason: `${toolName} requires approval but no one can approve it in this mode. Add an allow rule to config.json.`,
+      };
+    }
+
+    const request: ApprovalRequest = { toolName, args, ...details };
+    const result = this.queue.then(() => this.ask(request));
+    this.queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  private async ask(request: ApprovalRequest): Promise<PermissionResult> {
+    // An earlier answer in the queue may already cover this call
+    if (this.sessionRules.some(rule => matchesRule(rule, request.toolName, request.target, true))) {
+      return { allowed: true };
+    }
+
+    const { decision, feedback } = await this.handler!(request);
+    const rule = toRule(request);
+
+    switch (decision) {
+      case "allow_once":
+        return { allowed: true };
+      case "allow_session":
+        this.sessionRules.push(rule);
+        return { allowed: true };
+      case "allow_always":
+        this.sessionRules.push(rule);
+        await addPermissionRule("allow", rule);
+        return { allowed: true };
+      default:
+        return {
+          allowed: false,
+          reason: `The user denied this ${request.toolName} call.${feedback ? ` User feedback: ${feedback}` : ""}`,
+        };
+    }
+  }
+}
+
+/**
+ * Persist a permission rule in the global config.json
+ */
+export async function addPermissionRule(type: keyof PermissionsConfig, rule: string): Promise<void> {
+  await updateGlobalConfigFile(config => {
+    const permissions = (config.permissions ||= {});
+    const rules = (permissions[type] ||= []);
+    if (!rules.includes(rule)) {
+      rules.push(rule);
+    }
+  });
+}
+
+/**
+ * Whether a rule covers a tool call. For allow rules, a `*` in an executeCommand pattern never matches shell control
+ * operators, so `executeCommand(npm run *)` does not allow `npm run x && curl ... | sh`.
+ */
+export function matchesRule(rule: string, toolName: string, target: string, allowing = false): boolean {
+  const match = rule.trim().match(/^([^(]+?)(?:\((.*)\))?$/);
+  if (!match || match[1] !== toolName) {
+    return false;
+  }
+
+  const pattern = match[2];
+  const strict = allowing && toolName === COMMAND_TOOL_NAME;
+  if (pattern === undefined || (pattern === "*" && !strict)) {
+    return true;
+  }
+
+  const wildcard = strict ? COMMAND_WILDCARD : ".*";
+  const source = pattern
+    .split(/(\\.|\*+)/)
+    .map(part =>
+      part.startsWith("\\") && part.length === 2
+        ? escapeRegExp(part[1]!)
+        : part.startsWith("*")
+          ? wildcard
+          : escapeRegExp(part)
+    )
+    .join("");
+  return new RegExp(`^${source}$`).test(target);
+}
+
+/**
+ * Rule saved for an approved call, `*` and `\` in the target are escaped so they only match themselves
+ */
+function toRule({ toolName, target, scope }: ApprovalRequest): string {
+  return scope === "tool" ? toolName : `${toolName}(${target.replace(/[\\*]/g, "\\$&")})`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,34 @@
+/**
+ * What a destructive tool is about to do, shown to the user before it runs
+ */
+export interface ToolApprovalDetails {
+  /** Value permission rules are matched against, e.g. the command or the file path */
+  target: string;
+  /** Human readable preview, e.g. the diff or the command */
+  preview: string;
+  /** Whether "allow always" covers every call of the tool or only calls with the same target */
+  scope: "tool" | "target";
+}
+
+export interface ApprovalRequest extends ToolApprovalDetails {
+  toolName: string;
+  args: Record<string, any>;
+}
+
+export type ApprovalDecision = "allow_once" | "allow_session" | "allow_always" | "deny";
+
+export interface ApprovalResponse {
+  decision: ApprovalDecision;
+  /** Sent back to the model when the call is denied */
+  feedback?: string;
+}
+
+/**
+ * Asks the user to approve a tool call, e.g. on the readline terminal
+ */
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<ApprovalResponse>;
+
+export interface PermissionResult {
+  allowed: boolean;
+  reason?: string;
+}
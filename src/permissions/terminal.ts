@@ -0,0 +1,47 @@
+import chalk from "chalk";
+
+import type * as readline from "node:readline/promises";
+
+import type { ApprovalDecision, ApprovalHandler } from "./permissions.types";
+
+const CHOICES: Record<string, ApprovalDecision> = {
+  y: "allow_once",
+  a: "allow_session",
+  s: "allow_always",
+  n: "deny",
+};
+
+/**
+ * Ask for approvals on the readline terminal of the chat loop
+ */
+export function createTerminalApprovalHandler(terminal: readline.Interface): ApprovalHandler {
+  return async request => {
+    console.log(chalk.yellow(`\n⚠ ${request.toolName} needs your approval`));
+    console.log(request.preview);
+
+    const alwaysLabel = request.scope === "tool" ? `all ${request.toolName} calls` : "this exact call";
+    while (true) {
+      const answer = (
+        await terminal.question(
+          chalk.blue(
+            `Allow? [y] yes once  [a] always for ${alwaysLabel} in this session  [s] always, save to config.json  [n] no: `
+          )
+        )
+      )
+        .trim()
+        .toLowerCase();
+
+      const decision = CHOICES[answer.charAt(0)];
+      if (!decision) {
+        continue;
+      }
+
+      if (decision === "deny") {
+        const feedback = (await terminal.question(chalk.blue("Tell codebro what to do instead (optional): "))).trim();
+        return { decision, feedback: feedback || undefined };
+      }
+
+      return { decision };
+    }
+  };
+}
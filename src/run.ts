@@ -0,0 +1,147 @@
+import { getAgent } from "@agents";
+import { gatherContext } from "@agents/context";
+import { resolveConfig } from "@configs";
+import type { Message } from "@messages";
+import { createSession, saveSession } from "@sessions";
+import type { ToolCallResponse } from "@tools";
+import type { UsageRecord } from "@usage";
+import { OraManager } from "@utils/ora-manager";
+
+import process from "node:process";
+
+export type RunOutputFormat = "text" | "json";
+
+export interface RunOptions {
+  mode: string;
+  /** Provider or profile name */
+  provider: string;
+  /** Defaults to CODEBRO_MODEL or the provider default */
+  model?: string;
+  output: RunOutputFormat;
+  /** Approve every destructive tool call, otherwise only calls allowed by config.json rules run */
+  yes?: boolean;
+}
+
+/**
+ * Structured transcript printed by `codebro run --output json`
+ */
+export interface RunTranscript {
+  status: "completed" | "failed";
+  sessionId?: string;
+  prompt: string;
+  response: string;
+  mode: string;
+  provider: string;
+  model: string;
+  messages: Message[];
+  toolCalls: ToolCallResponse[];
+  usage?: UsageRecord;
+  error?: string;
+}
+
+/**
+ * Exit codes of the non-interactive mode
+ */
+export const RUN_EXIT_CODES = {
+  COMPLETED: 0,
+  FAILED: 1,
+  USAGE: 2,
+} as const;
+
+/**
+ * Run a single prompt to completion without entering the chat loop.
+ * Returns the process exit code.
+ */
+export async function runPrompt(prompt: string, { mode, provider, model, output, yes }: RunOptions): Promise<number> {
+  // Keep stdout for the result only while the agent runs, diagnostics (e.g. MCP setup logs) go to stderr
+  const log = console.log;
+  console.log = console.error;
+
+  const transcript: RunTranscript = {
+    status: "completed",
+    prompt,
+    response: "",
+    mode,
+    provider,
+    model: "",
+    messages: [],
+    toolCalls: [],
+  };
+
+  try {
+    const config = await resolveConfig(provider, model ? { model } : {});
+    transcript.model = config.model;
+
+    const context = await gatherContext(config);
+    context.permissions.setAutoApprove(Boolean(yes));
+    const agent = getAgent(context, mode);
+    transcript.model = agent.getModel();
+    const session = createSession(agent, { agentType: mode, provider });
+    transcript.sessionId = session.id;
+    context.checkpoints.attach(session.id);
+
+    try {
+      transcript.response = await agent.chat(new OraManager(true), prompt);
+    } finally {
+      const history = agent.getHistory();
+      transcript.messages = history.messages;
+      transcript.toolCalls = history.toolCalls;
+      transcript.usage = context.usage.getSessionTotal();
+      await saveSession(session, agent);
+      await context.mcp?.close();
+    }
+  } catch (error: any) {
+    transcript.status = "failed";
+    transcript.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    console.log = log;
+  }
+
+  printTranscript(transcript, output);
+
+  return transcript.status === "completed" ? RUN_EXIT_CODES.COMPLETED : RUN_EXIT_CODES.FAILED;
+}
+
+/**
+ * Resolve the prompt from the CLI argument and/or stdin. Stdin is only read when the prompt is omitted or `-`,
+ * or appended to the prompt with `--stdin`, so an open stdin (git hooks, CI runners) does not block.
+ */
+export async function resolvePrompt(argument?: string, appendStdin = false): Promise<string> {
+  const prompt = (argument || "").trim();
+  if (!prompt || prompt === "-") {
+    return (await readStdin()).trim();
+  }
+  if (!appendStdin) {
+    return prompt;
+  }
+
+  const piped = (await readStdin()).trim();
+  return piped ? `${prompt}\n\n${piped}` : prompt;
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    return "";
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function printTranscript(transcript: RunTranscript, output: RunOutputFormat) {
+  if (output === "json") {
+    process.stdout.write(JSON.stringify(transcript, null, 2) + "\n");
+    return;
+  }
+
+  if (transcript.status === "failed") {
+    process.stderr.write(`Error: ${transcript.error}\n`);
+    return;
+  }
+
+  process.stdout.write(transcript.response + "\n");
+}
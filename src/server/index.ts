@@ -0,0 +1,3 @@
+export * from "./server.types";
+export * from "./rpc";
+export * from "./server";
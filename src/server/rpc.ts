@@ -0,0 +1,146 @@
+import * as readline from "node:readline";
+
+import type { JsonRpcId, JsonRpcMessage, JsonRpcRequestHandler, JsonRpcResponse } from "./server.types";
+
+export const RPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** Application errors, e.g. an unknown session or a failed chat turn */
+  SERVER_ERROR: -32000,
+} as const;
+
+/**
+ * Error answered to a request with its JSON-RPC error code
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+/**
+ * JSON-RPC 2.0 over newline delimited JSON, one message per line.
+ * Requests are handled concurrently so the server can wait for answers of its own requests (e.g. approvals)
+ * while a chat request is running.
+ */
+export class JsonRpcConnection {
+  private handlers = new Map<string, JsonRpcRequestHandler>();
+  private pending = new Map<JsonRpcId, { resolve: (value: any) => void; reject: (error: Error) => void }>();
+  private nextId = 1;
+  private closed = false;
+
+  constructor(
+    private input: NodeJS.ReadableStream,
+    private write: (line: string) => void
+  ) {}
+
+  onRequest(method: string, handler: JsonRpcRequestHandler): this {
+    this.handlers.set(method, handler);
+    return this;
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  /**
+   * Send a request to the client and wait for its result
+   */
+  request<T>(method: string, params?: unknown): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      if (this.closed) {
+        reject(new Error("Connection closed"));
+        return;
+      }
+      this.pending.set(id, { resolve, reject });
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  /**
+   * Read messages until the input is closed
+   */
+  async listen(): Promise<void> {
+    const lines = readline.createInterface({ input: this.input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) {
+        void this.receive(line);
+      }
+    }
+
+    this.closed = true;
+    for (const { reject } of this.pending.values()) {
+      reject(new Error("Connection closed"));
+    }
+    this.pending.clear();
+  }
+
+  private async receive(line: string): Promise<void> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch (error: any) {
+      this.send({ jsonrpc: "2.0", id: null, error: { code: RPC_ERROR_CODES.PARSE_ERROR, message: error.message } });
+      return;
+    }
+
+    if (!message || typeof message !== "object" || message.jsonrpc !== "2.0") {
+      const id = typeof message === "object" && message !== null && "id" in message ? (message.id ?? null) : null;
+      this.send({ jsonrpc: "2.0", id, error: { code: RPC_ERROR_CODES.INVALID_REQUEST, message: "Invalid request" } });
+      return;
+    }
+
+    if (!("method" in message)) {
+      this.settle(message);
+      return;
+    }
+
+    const { id, method, params } = message;
+    const handler = this.handlers.get(method);
+    try {
+      if (!handler) {
+        throw new JsonRpcError(RPC_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${method}`);
+      }
+
+      const result = await handler(params ?? {});
+      if (id !== undefined) {
+        this.send({ jsonrpc: "2.0", id, result: result ?? null });
+      }
+    } catch (error: any) {
+      if (id !== undefined) {
+        const code = error instanceof JsonRpcError ? error.code : RPC_ERROR_CODES.SERVER_ERROR;
+        this.send({ jsonrpc: "2.0", id, error: { code, message: error.message, data: error.data } });
+      }
+    }
+  }
+
+  /**
+   * Resolve a request sent to the client with its response
+   */
+  private settle(response: JsonRpcResponse): void {
+    const pending = response.id === null ? undefined : this.pending.get(response.id);
+    if (!pending) {
+      return;
+    }
+
+    this.pending.delete(response.id!);
+    if (response.error) {
+      pending.reject(new JsonRpcError(response.error.code, response.error.message, response.error.data));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    this.write(`${JSON.stringify(message)}\n`);
+  }
+}
@@ -0,0 +1,264 @@
+import { getAgent } from "@agents";
+import type { AgentEvent, AgentMode } from "@agents/agents.types";
+import type { BaseAgent } from "@agents/base-agent";
+import { gatherContext } from "@agents/context";
+import { resolveConfig } from "@configs";
+import type { ApprovalDecision, ApprovalResponse } from "@permissions";
+import { type Session, createSession, listSessions, loadSession, saveSession } from "@sessions";
+import { OraManager } from "@utils/ora-manager";
+
+import process from "node:process";
+
+import { version } from "../../package.json";
+import { JsonRpcConnection, JsonRpcError, RPC_ERROR_CODES } from "./rpc";
+import type {
+  ApprovalRequestParams,
+  ChatParams,
+  ChatResult,
+  CreateSessionParams,
+  ServeOptions,
+  SessionHistory,
+  SessionInfo,
+} from "./server.types";
+
+export const PROTOCOL_VERSION = 1;
+
+const AGENT_MODES: AgentMode[] = ["PLAN", "EXECUTE"];
+const APPROVAL_DECISIONS: ApprovalDecision[] = ["allow_once", "allow_session", "allow_always", "deny"];
+
+// Agent events sent as notifications while a chat request runs
+const EVENT_NOTIFICATIONS: Record<AgentEvent["type"], string> = {
+  chunk: "chat/chunk",
+  tool_call: "chat/toolCall",
+  tool_result: "chat/toolResult",
+  status: "chat/status",
+};
+
+interface OpenSession {
+  agent: BaseAgent;
+  session: Session;
+  busy: boolean;
+}
+
+/**
+ * Serve sessions over JSON-RPC on stdin/stdout for editor integrations, see the README for the protocol.
+ * Resolves with the exit code once stdin is closed or a shutdown request was answered.
+ */
+export async function serveStdio(options: ServeOptions): Promise<number> {
+  // Keep stdout for protocol messages only, logs of tools and MCP servers go to stderr
+  const stdout = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  console.log = console.error;
+
+  const connection = new JsonRpcConnection(process.stdin, line => stdout(line));
+  const server = new CodebroServer(connection, options);
+  server.register();
+  await connection.listen();
+  // Chats still answering are saved once done, their approval requests are denied as the client is gone
+  await server.settle();
+  await server.saveAll();
+  await server.closeAll();
+
+  return 0;
+}
+
+class CodebroServer {
+  private sessions = new Map<string, OpenSession>();
+  private answers = new Set<Promise<ChatResult>>();
+
+  constructor(
+    private connection: JsonRpcConnection,
+    private options: ServeOptions
+  ) {}
+
+  register(): void {
+    this.connection
+      .onRequest("initialize", () => ({
+        name: "codebro",
+        version,
+        protocolVersion: PROTOCOL_VERSION,
+        workingDirectory: process.cwd(),
+      }))
+      .onRequest("session/create", (params: CreateSessionParams) => this.createSession(params))
+      .onRequest("session/resume", ({ sessionId }) => this.resumeSession(requireString(sessionId, "sessionId")))
+      .onRequest("session/list", () => listSessions(process.cwd()))
+      .onRequest("session/history", ({ sessionId }): SessionHistory => {
+        const { agent, session } = this.getSession(sessionId);
+        return { sessionId: session.id, ...agent.getHistory() };
+      })
+      .onRequest("session/setMode", ({ sessionId, mode }) => {
+        const { agent } = this.getSession(sessionId);
+        agent.setMode(parseMode(requireString(mode, "mode"))!);
+        return this.toSessionInfo(this.getSession(sessionId));
+      })
+      .onRequest("session/setModel", ({ sessionId, model }) => {
+        const { agent } = this.getSession(sessionId);
+        agent.setModel(requireString(model, "model"));
+        return this.toSessionInfo(this.getSession(sessionId));
+      })
+      .onRequest("session/close", async ({ sessionId }) => {
+        const open = this.getSession(sessionId);
+        assertIdle(open);
+        await saveSession(open.session, open.agent);
+        await open.agent.getContext().mcp?.close();
+        this.sessions.delete(sessionId);
+        return null;
+      })
+      .onRequest("chat", (params: ChatParams) => this.chat(params))
+      .onRequest("shutdown", async () => {
+        this.sessions.forEach(assertIdle);
+        await this.saveAll();
+        await this.closeAll();
+        // Exit once the response is written
+        setImmediate(() => process.exit(0));
+        return null;
+      });
+  }
+
+  /**
+   * Wait for the chats still answering
+   */
+  async settle(): Promise<void> {
+    await Promise.allSettled(this.answers);
+  }
+
+  async saveAll(): Promise<void> {
+    await Promise.all(
+      [...this.sessions.values()].map(({ session, agent }) => saveSession(session, agent).catch(() => undefined))
+    );
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(({ agent }) => agent.getContext().mcp?.close()));
+  }
+
+  private async createSession({ agent: agentType, provider, model }: CreateSessionParams): Promise<SessionInfo> {
+    const resolvedAgent = agentType || this.options.agent;
+    const resolvedProvider = provider || this.options.provider;
+    const resolvedModel = model || this.options.model;
+
+    const config = await resolveConfig(resolvedProvider, resolvedModel ? { model: resolvedModel } : {});
+    const agent = getAgent(await gatherContext(config), resolvedAgent);
+    const session = createSession(agent, { agentType: resolvedAgent, provider: resolvedProvider });
+
+    return this.open(agent, session);
+  }
+
+  private async resumeSession(id: string): Promise<SessionInfo> {
+    const session = await loadSession(process.cwd(), id);
+    const existing = this.sessions.get(session.id);
+    if (existing) {
+      return this.toSessionInfo(existing);
+    }
+
+    const config = await resolveConfig(session.provider, { model: session.model });
+    const context = await gatherContext(config);
+    const agent = getAgent(context, session.agent);
+    agent.restoreHistory(session.history, session.mode);
+    context.usage.restore(session.usage);
+
+    return this.open(agent, session);
+  }
+
+  private open(agent: BaseAgent, session: Session): SessionInfo {
+    const context = agent.getContext();
+    context.checkpoints.attach(session.id);
+    agent.setEventHandler(({ type, ...event }) =>
+      this.connection.notify(EVENT_NOTIFICATIONS[type], { sessionId: session.id, ...event })
+    );
+    context.permissions.setApprovalHandler(request => this.requestApproval({ sessionId: session.id, ...request }));
+
+    const open: OpenSession = { agent, session, busy: false };
+    this.sessions.set(session.id, open);
+    return this.toSessionInfo(open);
+  }
+
+  private chat(params: ChatParams): Promise<ChatResult> {
+    const answer = this.answer(params);
+    this.answers.add(answer);
+    return answer.finally(() => this.answers.delete(answer));
+  }
+
+  private async answer({ sessionId, message, mode, model, allowedTools }: ChatParams): Promise<ChatResult> {
+    const open = this.getSession(sessionId);
+    requireString(message, "message");
+    assertIdle(open);
+
+    open.busy = true;
+    try {
+      // The no-op stream callback enables streaming, chunks are sent by the event handler
+      const response = await open.agent.chat(new OraManager(true), message, () => undefined, {
+        mode: parseMode(mode),
+        model,
+        allowedTools,
+      });
+      return { response, usage: open.agent.getContext().usage.getLastTurn() };
+    } finally {
+      open.busy = false;
+      await saveSession(open.session, open.agent).catch(error => console.error(error.message));
+    }
+  }
+
+  private async requestApproval(params: ApprovalRequestParams): Promise<ApprovalResponse> {
+    try {
+      const response = await this.connection.request<ApprovalResponse>("approval/request", params);
+      if (!APPROVAL_DECISIONS.includes(response?.decision)) {
+        return { decision: "deny", feedback: `Invalid approval decision '${response?.decision}'` };
+      }
+
+      return response;
+    } catch (error: any) {
+      return { decision: "deny", feedback: `Approval failed: ${error.message}` };
+    }
+  }
+
+  private getSession(sessionId: unknown): OpenSession {
+    const open = this.sessions.get(requireString(sessionId, "sessionId"));
+    if (!open) {
+      throw new JsonRpcError(RPC_ERROR_CODES.INVALID_PARAMS, `Unknown session ${sessionId}, create or resume it first`);
+    }
+
+    return open;
+  }
+
+  private toSessionInfo({ agent, session }: OpenSession): SessionInfo {
+    return {
+      sessionId: session.id,
+      title: session.title,
+      agent: session.agent,
+      provider: session.provider,
+      model: agent.getModel(),
+      mode: agent.getMode(),
+    };
+  }
+}
+
+/**
+ * Sessions answering a message cannot take another one, nor be closed until the answer is done
+ */
+function assertIdle({ session, busy }: OpenSession): void {
+  if (busy) {
+    throw new JsonRpcError(RPC_ERROR_CODES.SERVER_ERROR, `Session ${session.id} is already answering a message`);
+  }
+}
+
+function requireString(value: unknown, name: string): string {
+  if (typeof value !== "string" || !value) {
+    throw new JsonRpcError(RPC_ERROR_CODES.INVALID_PARAMS, `Missing ${name}`);
+  }
+
+  return value;
+}
+
+function parseMode(mode: unknown): AgentMode | undefined {
+  if (mode === undefined) {
+    return undefined;
+  }
+
+  const parsed = String(mode).toUpperCase() as AgentMode;
+  if (!AGENT_MODES.includes(parsed)) {
+    throw new JsonRpcError(RPC_ERROR_CODES.INVALID_PARAMS, `Invalid mode '${mode}', must be one of: plan, execute`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,76 @@
+import type { AgentMode, AgentRunHistory } from "@agents/agents.types";
+import type { ApprovalRequest } from "@permissions";
+import type { TurnUsage } from "@usage";
+
+export type JsonRpcId = number | string;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  /** Notifications have no id and get no response */
+  id?: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse;
+
+export type JsonRpcRequestHandler = (params: any) => unknown;
+
+export interface ServeOptions {
+  /** Defaults of new sessions, each session/create request can override them */
+  agent: string;
+  provider: string;
+  model?: string;
+}
+
+/**
+ * Session as returned by session/create and session/resume
+ */
+export interface SessionInfo {
+  sessionId: string;
+  title: string;
+  agent: string;
+  provider: string;
+  model: string;
+  mode: AgentMode;
+}
+
+export interface CreateSessionParams {
+  /** Assistant type, coder or prompter */
+  agent?: string;
+  /** Provider or profile name */
+  provider?: string;
+  model?: string;
+}
+
+export interface ChatParams {
+  sessionId: string;
+  message: string;
+  /** Overrides for this message only, like custom commands */
+  mode?: AgentMode;
+  model?: string;
+  allowedTools?: string[];
+}
+
+export interface ChatResult {
+  response: string;
+  usage?: TurnUsage;
+}
+
+export interface SessionHistory extends AgentRunHistory {
+  sessionId: string;
+}
+
+/**
+ * Params of the approval/request request sent to the client
+ */
+export interface ApprovalRequestParams extends ApprovalRequest {
+  sessionId: string;
+}
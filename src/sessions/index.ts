@@ -0,0 +1,2 @@
+export * from "./sessions.types";
+export * from "./sessions";
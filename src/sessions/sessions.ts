@@ -0,0 +1,232 @@
+import chalk from "chalk";
+import { v4 as uuidv4 } from "uuid";
+
+import type { BaseAgent } from "@agents/base-agent";
+import { type Message, getTextContent } from "@messages";
+
+import { existsSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+import type { Session, SessionSummary } from "./sessions.types";
+
+export const SESSIONS_DIR = path.join(".codebro", "sessions");
+
+const TITLE_MAX_LENGTH = 60;
+
+// Ids and id prefixes given by users, anything else could point outside the sessions directory
+const SESSION_ID_REGEX = /^[\w-]+$/;
+
+/**
+ * Get the directory holding sessions of a project
+ */
+export function getSessionsDir(workingDirectory: string): string {
+  return path.join(workingDirectory, SESSIONS_DIR);
+}
+
+/**
+ * Create a new, not yet persisted, session for an agent
+ */
+export function createSession(
+  agent: BaseAgent,
+  { agentType, provider }: { agentType: string; provider: string }
+): Session {
+  const now = new Date().toISOString();
+  const context = agent.getContext();
+
+  return {
+    id: uuidv4().slice(0, 8),
+    title: "",
+    createdAt: now,
+    updatedAt: now,
+    workingDirectory: context.workingDirectory,
+    agent: agentType,
+    provider,
+    model: context.model,
+    mode: agent.getMode(),
+    history: agent.getHistory(),
+  };
+}
+
+/**
+ * Snapshot the agent state into the session and write it to disk
+ */
+export async function saveSession(session: Session, agent: BaseAgent): Promise<Session> {
+  const history = agent.getHistory();
+
+  session.history = history;
+  session.usage = agent.getContext().usage.toJSON();
+  session.mode = agent.getMode();
+  session.model = agent.getContext().model;
+  session.updatedAt = new Date().toISOString();
+  session.title = session.title || toTitle(agent.getFirstPrompt());
+
+  const sessionsDir = getSessionsDir(session.workingDirectory);
+  const sessionPath = path.join(sessionsDir, `${session.id}.json`);
+  // Nothing worth resuming yet, a session saved before is still updated so it does not keep a stale history
+  if (!history.messages.length && !existsSync(sessionPath)) {
+    return session;
+  }
+
+  try {
+    await fs.mkdir(sessionsDir, { recursive: true });
+    await fs.writeFile(sessionPath, JSON.stringify(session, null, 2), "utf-8");
+  } catch (error: any) {
+    throw new Error(`Failed to save session ${session.id}: ${error.message}`);
+  }
+
+  return session;
+}
+
+/**
+ * Load a session by id, a unique id prefix is accepted as well
+ */
+export async function loadSession(workingDirectory: string, id: string): Promise<Session> {
+  const sessionPath = await resolveSessionPath(workingDirectory, id);
+
+  try {
+    return JSON.parse(await fs.readFile(sessionPath, "utf-8")) as Session;
+  } catch (error: any) {
+    throw new Error(`Failed to load session ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * List sessions of a project, most recently updated first
+ */
+export async function listSessions(workingDirectory: string): Promise<SessionSummary[]> {
+  const sessionsDir = getSessionsDir(workingDirectory);
+  if (!existsSync(sessionsDir)) {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of await fs.readdir(sessionsDir)) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+
+    try {
+      // The usage is not part of the summary
+      const {
+        history,
+        usage: _usage,
+        ...session
+      }: Session = JSON.parse(await fs.readFile(path.join(sessionsDir, file), "utf-8"));
+      summaries.push({
+        ...session,
+        messageCount: history.messages.length,
+        toolCallCount: history.toolCalls.length,
+      });
+    } catch (error: any) {
+      console.warn(`Skipping unreadable session file ${file}: ${error.message}`);
+    }
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a session by id or unique id prefix, returns the deleted session id
+ */
+export async function deleteSession(workingDirectory: string, id: string): Promise<string> {
+  const sessionPath = await resolveSessionPath(workingDirectory, id);
+  await fs.rm(sessionPath);
+
+  return path.basename(sessionPath, ".json");
+}
+
+export function printSessionList(sessions: SessionSummary[]) {
+  if (!sessions.length) {
+    console.log(chalk.yellow("No sessions found in this project."));
+    return;
+  }
+
+  for (const session of sessions) {
+    console.log(
+      `${chalk.blue(session.id)}  ${chalk.dim(session.updatedAt)}  ${session.agent}/${session.mode}  ${session.model}  ` +
+        chalk.dim(`(${session.messageCount} messages, ${session.toolCallCount} tool calls)`)
+    );
+    console.log(`  ${session.title || chalk.dim("<empty>")}`);
+  }
+}
+
+export function printSession(session: Session) {
+  console.log(chalk.blue("Session:"), session.id);
+  console.log(chalk.blue("Created:"), session.createdAt, chalk.blue("Updated:"), session.updatedAt);
+  console.log(
+    chalk.blue("Agent:"),
+    session.agent,
+    chalk.blue("Mode:"),
+    session.mode,
+    chalk.blue("Provider:"),
+    session.provider,
+    chalk.blue("Model:"),
+    session.model,
+    "\n"
+  );
+
+  printMessages(session.history.messages);
+}
+
+/**
+ * Print the conversation part of messages, system prompts are skipped
+ */
+export function printMessages(messages: Message[]) {
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+
+    const content = getTextContent(message.content);
+    if (message.role === "tool") {
+      console.log(chalk.dim(`[tool ${message.tool_call_id}] ${truncate(content, 200)}`));
+      continue;
+    }
+
+    if (content) {
+      console.log(`${message.role === "user" ? chalk.blue("You:") : chalk.yellow("Codebro:")} ${content}`);
+    }
+
+    for (const toolCall of message.tool_calls || []) {
+      console.log(
+        chalk.dim(`[call ${toolCall.id}] ${toolCall.function.name}(${truncate(toolCall.function.arguments, 200)})`)
+      );
+    }
+  }
+}
+
+async function resolveSessionPath(workingDirectory: string, id: string): Promise<string> {
+  if (!SESSION_ID_REGEX.test(id)) {
+    throw new Error(`Invalid session id '${id}', only letters, digits, "_" and "-" are allowed`);
+  }
+
+  const sessionsDir = getSessionsDir(workingDirectory);
+  const exactPath = path.join(sessionsDir, `${id}.json`);
+  if (existsSync(exactPath)) {
+    return exactPath;
+  }
+
+  const matches = existsSync(sessionsDir)
+    ? (await fs.readdir(sessionsDir)).filter(file => file.startsWith(id) && file.endsWith(".json"))
+    : [];
+
+  if (matches.length > 1) {
+    throw new Error(
+      `Session id '${id}' is ambiguous, matches: ${matches.map(m => path.basename(m, ".json")).join(", ")}`
+    );
+  }
+  if (!matches[0]) {
+    throw new Error(`Session '${id}' not found in ${sessionsDir}`);
+  }
+
+  return path.join(sessionsDir, matches[0]);
+}
+
+function toTitle(prompt: string = ""): string {
+  return truncate(prompt.replace(/\s+/g, " ").trim(), TITLE_MAX_LENGTH);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+}
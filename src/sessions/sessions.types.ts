@@ -0,0 +1,27 @@
+import type { AgentMode, AgentRunHistory } from "@agents/agents.types";
+import type { SessionUsage } from "@usage";
+
+/**
+ * A persisted conversation stored under .codebro/sessions
+ */
+export interface Session {
+  id: string;
+  /** First message the user typed, used to recognize the session in listings */
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  workingDirectory: string;
+  /** Assistant type the session was started with, e.g. coder or prompter */
+  agent: string;
+  /** Provider or profile name */
+  provider: string;
+  model: string;
+  mode: AgentMode;
+  history: AgentRunHistory;
+  usage?: SessionUsage;
+}
+
+export type SessionSummary = Omit<Session, "history" | "usage"> & {
+  messageCount: number;
+  toolCallCount: number;
+};
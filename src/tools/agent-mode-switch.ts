@@ -1,7 +1,6 @@
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents/agents.types";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 /**
@@ -41,7 +40,7 @@ export const agentModeSwitchTool: Tool = {
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const oraManager = new OraManager();
     const { mode, purpose, context: modeContext = "" } = args;
     oraManager.startTool(`Switching agent mode to '${mode}' for: ${purpose}`);
@@ -1,9 +1,9 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import { getPatch } from "@tools/propose-code";
-import type { Tool } from "@tools/tools.types";
+import type { ToolApprovalDetails } from "@permissions";
+import { getPatch, readOriginalContent } from "@tools/propose-code";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { formatSuffix, OraManager } from "@utils/ora-manager";
 
 import fs from "node:fs";
@@ -67,7 +67,30 @@ Usage Instructions:
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  getModifiedFiles(args, context: ToolContext): string[] {
+    return [path.resolve(context.workingDirectory, args.path)];
+  },
+
+  async getApprovalDetails(args, context: ToolContext): Promise<ToolApprovalDetails> {
+    const { path: filePath, searchString, newString } = args;
+    const absolutePath = path.resolve(context.workingDirectory, filePath);
+    const originalContent = readOriginalContent(absolutePath, filePath);
+    const updatedContent = searchString ? originalContent.replace(searchString, newString) : newString;
+    const diffHunks = getPatch({
+      filePath,
+      fileContents: originalContent,
+      oldStr: originalContent,
+      newStr: updatedContent,
+    });
+
+    return {
+      target: path.relative(context.workingDirectory, absolutePath),
+      preview: `Edit ${filePath}\n${formatDiff(diffHunks)}`,
+      scope: "tool",
+    };
+  },
+
+  async run(args, context: ToolContext): Promise<any> {
     const { path: filePath, searchString, newString, createDirs = true } = args;
     const oraManager = new OraManager();
     oraManager.startTool(`Editing file: ${filePath}`, formatSuffix(filePath));
@@ -76,7 +99,7 @@ Usage Instructions:
 
     try {
       // Read original file content or initialize empty if it doesn't exist
-      const originalContent = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, "utf-8") : "";
+      const originalContent = readOriginalContent(absolutePath, filePath);
 
       // Validate searchString exists if not overwriting entire file
       if (searchString && originalContent && !originalContent.includes(searchString)) {
@@ -1,8 +1,8 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { ToolApprovalDetails } from "@permissions";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 import * as child_process from "node:child_process";
@@ -85,7 +85,17 @@ export const executeCommandTool: Tool = {
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async getApprovalDetails(args, context: ToolContext): Promise<ToolApprovalDetails> {
+    const { command, workingDir = "." } = args;
+
+    return {
+      target: command,
+      preview: `Run ${chalk.bold(command)} ${chalk.dim(`in ${path.resolve(context.workingDirectory, workingDir)}`)}`,
+      scope: "target",
+    };
+  },
+
+  async run(args, context: ToolContext): Promise<any> {
     const oraManager = new OraManager();
     const { command, workingDir = ".", timeout = 30000 } = args;
     const cwd = path.resolve(context.workingDirectory, workingDir);
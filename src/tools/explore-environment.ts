@@ -1,8 +1,7 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 import * as child_process from "node:child_process";
@@ -102,7 +101,7 @@ Usage Instructions:
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const oraManager = new OraManager();
     const { workingDir = ".", includeFiles = [] } = args;
     const cwd = path.resolve(context.workingDirectory, workingDir);
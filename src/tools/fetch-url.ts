@@ -4,10 +4,9 @@ import * as cheerio from "cheerio";
 import { convert } from "html-to-text";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
 import { OraManager } from "@utils/ora-manager";
 
-import type { Tool } from "./tools.types";
+import type { Tool, ToolContext } from "./tools.types";
 
 /**
  * Fetch content from a URL
@@ -62,7 +61,7 @@ Usage Instructions:
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const { url, maxContentLength = 10000, timeout = 5000 } = args;
     const oraManager = new OraManager();
     oraManager.startTool(`Fetching content from ${url}...`, chalk.dim(`[url=${url}]`));
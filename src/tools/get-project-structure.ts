@@ -1,7 +1,6 @@
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 import fs from "node:fs";
@@ -41,7 +40,7 @@ export const projectStructureTool: Tool = {
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const { directory = "", depth = 3, exclude = "node_modules,.git,dist,build" } = args;
     const oraManager = new OraManager();
     oraManager.startTool(
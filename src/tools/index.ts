@@ -13,6 +13,7 @@ import { webSearchTool } from "@tools/web-search-tool";
 import { writeFileTool } from "@tools/write-file";
 
 export * from "./tools.types";
+export * from "./prompt-tools";
 
 export function getCodeTools(): Tool[] {
   return [
@@ -42,28 +43,3 @@ export function removeRedundantTools(tools: Tool[], excludeTools: string[] = [])
     return !excludeTools.includes(toolName) && !toolNames.has(toolName) && toolNames.add(toolName);
   });
 }
-
-export function formatToolForPrompt(tool: Tool): string {
-  const toolFunction = tool.getDefinition().function;
-  let formattedTool = "";
-  const parameters = (toolFunction?.parameters?.properties || {}) as Record<string, any>;
-  const properties: string[] = Object.keys(parameters || {});
-  const required = (toolFunction?.parameters?.required || []) as string[];
-  if (properties.length > 0) {
-    formattedTool += `Tool: ${toolFunction.name}\nDescription: ${toolFunction.description}\nParameters:\n `;
-    for (const property of properties) {
-      formattedTool += ` - ${property} (${parameters[property]?.type || ""}${required.includes(property) ? ", required" : ""}): ${parameters[property]?.description || ""}\n`;
-    }
-    formattedTool += "\n";
-  }
-
-  return formattedTool;
-}
-
-export function formatToolsForPrompt(tools: Tool[]): string {
-  if (!tools || tools.length === 0) {
-    return "No tools available.";
-  }
-
-  return `Available tools that could be chose:\n\n${tools.map(formatToolForPrompt).join("\n")}\n`;
-}
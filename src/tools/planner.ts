@@ -3,7 +3,7 @@ import type OpenAI from "openai";
 
 import type { AgentContext } from "@agents";
 import type { Tool } from "@tools/tools.types";
-import { callLlm } from "@utils/llm";
+import { callLlm, getToolModel } from "@utils/llm";
 import { OraManager } from "@utils/ora-manager";
 
 /**
@@ -75,7 +75,8 @@ Task: Initialize Game Environment
       const result = await callLlm(
         context,
         systemPrompt,
-        conversationContext ? `<context>${conversationContext}</context>\n\n${prompt}` : prompt
+        conversationContext ? `<context>${conversationContext}</context>\n\n${prompt}` : prompt,
+        { model: getToolModel(context, "planner") }
       );
       // const tasks = parseTasks(result);
       // if (tasks.length > 0) {
@@ -0,0 +1,140 @@
+import type OpenAI from "openai";
+import { v4 as uuidv4 } from "uuid";
+
+import { type Message, getTextContent } from "@messages";
+
+import type { Tool } from "./tools.types";
+
+export const TOOL_CALL_TAG = "tool_call";
+export const TOOL_RESULT_TAG = "tool_result";
+
+export function formatToolForPrompt(tool: Tool): string {
+  const toolFunction = tool.getDefinition().function;
+  let formattedTool = "";
+  const parameters = (toolFunction?.parameters?.properties || {}) as Record<string, any>;
+  const properties: string[] = Object.keys(parameters || {});
+  const required = (toolFunction?.parameters?.required || []) as string[];
+  formattedTool += `Tool: ${toolFunction.name}\nDescription: ${toolFunction.description}\nParameters:\n `;
+  if (!properties.length) {
+    formattedTool += " none\n";
+  }
+  for (const property of properties) {
+    formattedTool += ` - ${property} (${parameters[property]?.type || ""}${required.includes(property) ? ", required" : ""}): ${parameters[property]?.description || ""}\n`;
+  }
+  formattedTool += "\n";
+
+  return formattedTool;
+}
+
+export function formatToolsForPrompt(tools: Tool[]): string {
+  if (!tools || tools.length === 0) {
+    return "No tools available.";
+  }
+
+  return `Available tools that could be chose:\n\n${tools.map(formatToolForPrompt).join("\n")}\n`;
+}
+
+/**
+ * Tool declarations plus the protocol used by models without native function calling
+ */
+export function formatToolCallingInstructions(tools: Tool[]): string {
+  if (!tools.length) {
+    return "";
+  }
+
+  return `
+# Tool calling
+To call a tool, answer with one block per call and nothing after the blocks, arguments follow the tool parameters:
+<${TOOL_CALL_TAG}>{"name": "<tool name>", "arguments": {"<parameter>": <value>}}</${TOOL_CALL_TAG}>
+Results are sent back in <${TOOL_RESULT_TAG}> blocks. Answer normally, without any block, once you are done.
+
+${formatToolsForPrompt(tools)}`;
+}
+
+/**
+ * Extract tool calls from an answer, written as <tool_call> blocks or as ```json fences holding the name of an
+ * available tool and an arguments object. Returns the answer without the blocks.
+ */
+export function parseToolCalls(
+  text: string,
+  toolNames: string[]
+): {
+  content: string;
+  toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[];
+} {
+  const toolCalls: OpenAI.Chat.ChatCompletionMessageToolCall[] = [];
+  // Fences are common in answers, only the ones clearly calling a tool are taken
+  const isFencedCall = (name: string, args: unknown) =>
+    toolNames.includes(name) && typeof args === "object" && args !== null && !Array.isArray(args);
+  const patterns: [RegExp, (name: string, args: unknown) => boolean][] = [
+    [new RegExp(`<${TOOL_CALL_TAG}>([\\s\\S]*?)</${TOOL_CALL_TAG}>`, "g"), () => true],
+    [/```(?:json)?\s*(\{[\s\S]*?\})\s*```/g, isFencedCall],
+  ];
+
+  let content = text;
+  for (const [pattern, accept] of patterns) {
+    content = content.replace(pattern, (block, json: string) => {
+      const toolCall = toToolCall(json, accept);
+      if (!toolCall) {
+        return block;
+      }
+
+      toolCalls.push(toolCall);
+      return "";
+    });
+  }
+
+  return { content: content.trim(), toolCalls };
+}
+
+/**
+ * Rewrite tool calls and tool results of the history as plain text, for APIs without tool roles
+ */
+export function toPromptToolMessages(messages: Message[]): Message[] {
+  return messages.map(message => {
+    if (message.role === "tool") {
+      return {
+        role: "user",
+        content: `<${TOOL_RESULT_TAG} id="${message.tool_call_id || ""}">${getTextContent(message.content)}</${TOOL_RESULT_TAG}>`,
+      };
+    }
+
+    if (message.role === "assistant" && message.tool_calls?.length) {
+      const calls = message.tool_calls.map(
+        toolCall =>
+          `<${TOOL_CALL_TAG}>${JSON.stringify({ name: toolCall.function.name, arguments: parseArguments(toolCall.function.arguments) })}</${TOOL_CALL_TAG}>`
+      );
+      return { role: "assistant", content: [getTextContent(message.content), ...calls].filter(Boolean).join("\n") };
+    }
+
+    return message;
+  });
+}
+
+function toToolCall(
+  json: string,
+  accept: (name: string, args: unknown) => boolean
+): OpenAI.Chat.ChatCompletionMessageToolCall | undefined {
+  try {
+    const { name, arguments: args } = JSON.parse(json.trim());
+    if (typeof name !== "string" || !name || !accept(name, args)) {
+      return undefined;
+    }
+
+    return {
+      id: `call_${uuidv4().slice(0, 8)}`,
+      type: "function",
+      function: { name, arguments: typeof args === "string" ? args : JSON.stringify(args ?? {}) },
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function parseArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return args;
+  }
+}
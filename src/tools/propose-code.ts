@@ -1,11 +1,10 @@
 import { type Hunk, structuredPatch } from "diff";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager, formatSuffix } from "@utils/ora-manager";
 
-import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, statSync } from "node:fs";
 import { dirname, isAbsolute, resolve } from "node:path";
 
 /**
@@ -74,7 +73,7 @@ export const proposeCodeTool: Tool = {
     };
   },
 
-  async run(args: ProposeCodeArgs, context: AgentContext): Promise<any> {
+  async run(args: ProposeCodeArgs, context: ToolContext): Promise<any> {
     const { path: filePath, oldString, newString, codeMarkdownLanguage, instruction, targetLintErrorIds } = args;
     const cwd = context.workingDirectory;
     const oraManager = new OraManager();
@@ -139,6 +138,20 @@ export function applyEdit(
   return { patch, updatedFile };
 }
 
+/**
+ * Content of a file about to be written, empty for a new file. Fails for paths that are not files, e.g. directories.
+ */
+export function readOriginalContent(absolutePath: string, filePath: string): string {
+  if (!existsSync(absolutePath)) {
+    return "";
+  }
+  if (!statSync(absolutePath).isFile()) {
+    throw new Error(`${filePath} is not a file`);
+  }
+
+  return readFileSync(absolutePath, "utf-8");
+}
+
 const AMPERSAND_TOKEN = "<<:AMPERSAND_TOKEN:>>";
 const DOLLAR_TOKEN = "<<:DOLLAR_TOKEN:>>";
 
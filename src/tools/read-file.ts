@@ -1,7 +1,6 @@
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 import fs from "node:fs";
@@ -44,7 +43,7 @@ export const readFileTool: Tool = {
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const { path: filePath, startLine, endLine } = args;
     const oraManager = new OraManager();
     oraManager.startTool(`Reading file '${filePath}' from project...`);
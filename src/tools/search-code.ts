@@ -1,8 +1,7 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 import { rgPath } from "@vscode/ripgrep";
 
@@ -72,7 +71,7 @@ Usage Instructions:
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const { query, path, filePattern = "" } = args;
     const oraManager = new OraManager();
     oraManager.startTool(
@@ -2,14 +2,13 @@ import chalk from "chalk";
 import OpenAI from "openai";
 import { v4 as uuidv4 } from "uuid";
 
-import type { AgentContext } from "@agents";
 import { createErrorLog, parseMarkdownTasks, writeMarkdownTasks } from "@utils";
 import { OraManager } from "@utils/ora-manager";
 
 import { promises as fs } from "node:fs";
 import path from "node:path";
 
-import type { Task, Tool } from "./tools.types";
+import type { Task, Tool, ToolContext } from "./tools.types";
 
 /**
  * Task Manager Tool: Manages tasks and subtasks, persists state in .codebro/tasks.json
@@ -61,7 +60,7 @@ export const taskManagerTool: Tool = {
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const oraManager = new OraManager();
     const { action, taskId, description, status, subtasks } = args;
     const tasksPath = path.join(context.workingDirectory, ".codebro/tasks.md");
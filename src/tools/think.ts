@@ -1,8 +1,7 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 /**
@@ -44,7 +43,7 @@ The tool simply logs your thought process for better transparency and does not e
     };
   },
 
-  async run(args, context: AgentContext): Promise<any> {
+  async run(args, context: ToolContext): Promise<any> {
     const { reason, delayInMs } = args;
     const oraManager = new OraManager();
     oraManager.start(`Thinking: ${reason}`, chalk.dim(`\t thinking time: ${delayInMs}`));
@@ -1,6 +1,13 @@
 import OpenAI from "openai";
 
 import type { AgentContext } from "@agents";
+import type { ToolApprovalDetails } from "@permissions";
+
+/**
+ * Part of the agent context tools work with, also set up when the tools are served over MCP without an agent.
+ * Tools calling a model, e.g. the planner, take the whole agent context and are not served.
+ */
+export type ToolContext = Pick<AgentContext, "workingDirectory">;
 
 /**
  * Tool definition
@@ -8,7 +15,17 @@ import type { AgentContext } from "@agents";
 export interface Tool {
   getDefinition(): OpenAI.Chat.ChatCompletionTool;
 
-  run(args: Record<string, any>, context: AgentContext): Promise<any>;
+  run(args: Record<string, any>, context: ToolContext): Promise<any>;
+
+  /**
+   * Destructive tools describe the pending change, the call then waits for user approval
+   */
+  getApprovalDetails?(args: Record<string, any>, context: ToolContext): Promise<ToolApprovalDetails>;
+
+  /**
+   * Files the call is about to change, they are snapshotted first so the change can be undone
+   */
+  getModifiedFiles?(args: Record<string, any>, context: ToolContext): string[];
 
   isMCPTool?: boolean;
 }
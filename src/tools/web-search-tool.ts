@@ -2,8 +2,7 @@ import chalk from "chalk";
 import { search } from "duck-duck-scrape";
 import OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import type { Tool } from "@tools/tools.types";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 export const webSearchTool: Tool = {
@@ -55,7 +54,7 @@ Usage Instructions:
     };
   },
 
-  async run(args, _: AgentContext): Promise<any> {
+  async run(args, _: ToolContext): Promise<any> {
     const { query, maxResults = 10 } = args;
     const oraManager = new OraManager();
     oraManager.startTool(
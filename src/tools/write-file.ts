@@ -2,9 +2,9 @@
 import chalk from "chalk";
 import type OpenAI from "openai";
 
-import type { AgentContext } from "@agents";
-import { getPatch } from "@tools/propose-code";
-import type { Tool } from "@tools/tools.types";
+import type { ToolApprovalDetails } from "@permissions";
+import { getPatch, readOriginalContent } from "@tools/propose-code";
+import type { Tool, ToolContext } from "@tools/tools.types";
 import { OraManager } from "@utils/ora-manager";
 
 import fs from "node:fs";
@@ -66,7 +66,24 @@ Usage Instructions:
     };
   },
 
-  async run(args, context: AgentContext, signal?: AbortSignal): Promise<any> {
+  getModifiedFiles(args, context: ToolContext): string[] {
+    return [path.resolve(context.workingDirectory, args.path)];
+  },
+
+  async getApprovalDetails(args, context: ToolContext): Promise<ToolApprovalDetails> {
+    const { path: filePath, content } = args;
+    const absolutePath = path.resolve(context.workingDirectory, filePath);
+    const originalContent = readOriginalContent(absolutePath, filePath);
+    const diffHunks = getPatch({ filePath, fileContents: originalContent, oldStr: originalContent, newStr: content });
+
+    return {
+      target: path.relative(context.workingDirectory, absolutePath),
+      preview: `${originalContent ? "Overwrite" : "Create"} ${filePath}\n${formatDiff(diffHunks)}`,
+      scope: "tool",
+    };
+  },
+
+  async run(args, context: ToolContext, signal?: AbortSignal): Promise<any> {
     const { path: filePath, content, createDirs = true } = args;
     const oraManager = new OraManager();
     oraManager.startTool(`Writing file: ${filePath}`);
@@ -76,7 +93,7 @@ Usage Instructions:
 
     try {
       // Read original file content (if it exists)
-      const originalContent = fs.existsSync(absolutePath) ? fs.readFileSync(absolutePath, "utf-8") : "";
+      const originalContent = readOriginalContent(absolutePath, filePath);
 
       // Create parent directories if they don't exist
       if (createDirs) {
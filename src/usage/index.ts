@@ -0,0 +1,2 @@
+export * from "./usage.types";
+export * from "./usage";
@@ -0,0 +1,140 @@
+import chalk from "chalk";
+import type OpenAI from "openai";
+
+import type { ModelConfig } from "@configs";
+
+import type { SessionUsage, TokenUsage, TurnUsage, UsageRecord } from "./usage.types";
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Track token usage and cost per request, per turn and for the whole session
+ */
+export class UsageTracker {
+  private turns: TurnUsage[] = [];
+
+  constructor(private models: Record<string, ModelConfig> = {}) {}
+
+  /**
+   * Start accounting a new user message
+   */
+  startTurn(): void {
+    this.turns.push({ requests: [] });
+  }
+
+  /**
+   * Record the usage of a chat completion response (or the last chunk of a stream)
+   */
+  record(model: string, usage?: OpenAI.CompletionUsage | null): UsageRecord | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const tokens: TokenUsage = {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+    };
+    const record: UsageRecord = { model, ...tokens, cost: this.getCost(model, tokens) };
+
+    if (!this.turns.length) {
+      this.startTurn();
+    }
+    this.turns[this.turns.length - 1]!.requests.push(record);
+
+    return record;
+  }
+
+  getLastTurn(): TurnUsage | undefined {
+    return this.turns[this.turns.length - 1];
+  }
+
+  getSessionTotal(): UsageRecord {
+    return sumRecords(this.turns.flatMap(turn => turn.requests));
+  }
+
+  /**
+   * Cost in USD of the given tokens, undefined when the model has no pricing
+   */
+  getCost(model: string, { promptTokens, completionTokens, cachedTokens }: TokenUsage): number | undefined {
+    const pricing = this.findPricing(model);
+    if (pricing?.inputPrice === undefined || pricing.outputPrice === undefined) {
+      return undefined;
+    }
+
+    const cachedPrice = pricing.cachedInputPrice ?? pricing.inputPrice;
+    return (
+      ((promptTokens - cachedTokens) * pricing.inputPrice +
+        cachedTokens * cachedPrice +
+        completionTokens * pricing.outputPrice) /
+      TOKENS_PER_PRICE_UNIT
+    );
+  }
+
+  toJSON(): SessionUsage {
+    return { turns: this.turns };
+  }
+
+  /**
+   * Restore usage of a resumed session
+   */
+  restore(usage?: SessionUsage): void {
+    this.turns = [...(usage?.turns || [])];
+  }
+
+  /**
+   * Find the pricing of a model: exact name first, then without provider prefix (e.g. openai/gpt-4o on OpenRouter)
+   */
+  private findPricing(model: string): ModelConfig | undefined {
+    const normalized = model.toLowerCase();
+    const withoutPrefix = normalized.split("/").pop() || normalized;
+    const entry = Object.entries(this.models).find(
+      ([name]) => name.toLowerCase() === normalized || name.toLowerCase() === withoutPrefix
+    );
+
+    return entry?.[1];
+  }
+}
+
+export function sumRecords(records: UsageRecord[]): UsageRecord {
+  const models = [...new Set(records.map(record => record.model))];
+
+  return records.reduce<UsageRecord>(
+    (total, record) => ({
+      model: total.model,
+      promptTokens: total.promptTokens + record.promptTokens,
+      completionTokens: total.completionTokens + record.completionTokens,
+      cachedTokens: total.cachedTokens + record.cachedTokens,
+      cost: total.cost === undefined || record.cost === undefined ? undefined : total.cost + record.cost,
+    }),
+    { model: models.join(", "), promptTokens: 0, completionTokens: 0, cachedTokens: 0, cost: 0 }
+  );
+}
+
+/**
+ * Format usage as a single line, e.g. for the welcome and exit banners
+ */
+export function formatUsage({ promptTokens, completionTokens, cachedTokens, cost }: UsageRecord): string {
+  const cached = cachedTokens ? ` (${cachedTokens.toLocaleString()} cached)` : "";
+  const costText = cost === undefined ? "n/a (no pricing in config.json)" : `$${cost.toFixed(4)}`;
+
+  return `Tokens: ${promptTokens.toLocaleString()} prompt${cached}, ${completionTokens.toLocaleString()} completion   Cost: ${costText}`;
+}
+
+/**
+ * Print the detailed usage of the last turn and the session totals
+ */
+export function printUsageReport(tracker: UsageTracker) {
+  const lastTurn = tracker.getLastTurn();
+  if (lastTurn?.requests.length) {
+    console.log(chalk.blue("Last message:"));
+    lastTurn.requests.forEach((request, index) => {
+      console.log(chalk.dim(`  #${index + 1} ${request.model}  `) + formatUsage(request));
+    });
+    console.log(`  Total  ${formatUsage(sumRecords(lastTurn.requests))}`);
+  }
+
+  const total = tracker.getSessionTotal();
+  console.log(chalk.blue("Session:"), chalk.dim(total.model || "no requests yet"));
+  console.log(`  ${formatUsage(total)}`);
+}
@@ -0,0 +1,29 @@
+/**
+ * Token counts reported by the provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from the provider cache, included in promptTokens */
+  cachedTokens: number;
+}
+
+/**
+ * Usage of a single LLM request, i.e. one iteration of the tool loop
+ */
+export interface UsageRecord extends TokenUsage {
+  model: string;
+  /** Cost in USD, undefined when the model has no pricing in config.json */
+  cost?: number;
+}
+
+/**
+ * Usage of one user message, including every tool loop iteration it caused
+ */
+export interface TurnUsage {
+  requests: UsageRecord[];
+}
+
+export interface SessionUsage {
+  turns: TurnUsage[];
+}
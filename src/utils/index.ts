@@ -2,6 +2,7 @@ import chalk from "chalk";
 import process from "process";
 import { v4 as uuidv4 } from "uuid";
 
+import type { SlashCommand } from "@commands";
 import type { Task, ToolCallResponse } from "@tools";
 
 import fs from "node:fs";
@@ -9,9 +10,17 @@ import fs from "node:fs";
 import { version } from "../../package.json";
 
 /**
- * Display help information
+ * Display help information, generated from the registered slash commands
  */
-export function displayHelp() {
+export function displayHelp(commands: SlashCommand[]) {
+  const rows = commands.map(command => ({
+    label:
+      [command.name, ...(command.aliases || [])].map(name => `/${name}`).join(", ") +
+      ` ${command.usage || ""}`.trimEnd(),
+    description: command.description,
+  }));
+  const width = Math.max(...rows.map(row => row.label.length)) + 2;
+
   createAgentLog(`
 Codebro - Your AI Coding Assistant
 
@@ -19,8 +28,9 @@ Usage: Entering interactive mode until exit signal found via commands below
 > codebro 
 
 Commands:
-  exit, quit, bye         Exit the application
-  `);
+${rows.map(row => `  ${row.label.padEnd(width)}${row.description}`).join("\n")}
+  exit, quit, bye${" ".repeat(Math.max(width - 15, 1))}Exit the application
+`);
 }
 
 export function displayVersion() {
@@ -1,16 +1,34 @@
 import type { AgentContext } from "@agents";
 
-export async function callLlm(context: AgentContext, systemPrompt: string, prompt: string): Promise<string> {
-  const { model, client } = context;
+export interface CallLlmOptions {
+  /** Defaults to the model of the context */
+  model?: string;
+}
+
+export async function callLlm(
+  context: AgentContext,
+  systemPrompt: string,
+  prompt: string,
+  options: CallLlmOptions = {}
+): Promise<string> {
+  const { client, usage } = context;
+  const model = options.model || context.model;
 
-  const response = await client.chat.completions.create({
+  const response = await client.complete({
     model,
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: prompt },
     ],
-    stream: false,
   });
+  usage?.record(response.model || model, response.usage);
 
   return response.choices[0]?.message.content || "";
 }
+
+/**
+ * Model routed to a tool by `routing.tools` in config.json, the default model otherwise
+ */
+export function getToolModel(context: AgentContext, toolName: string): string {
+  return context.config.routing?.tools?.[toolName] || context.model;
+}
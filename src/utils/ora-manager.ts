@@ -4,9 +4,14 @@ import ora, { type Ora } from "ora";
 export class OraManager {
   private spinner: Ora | null = null;
 
+  /**
+   * @param silent Suppress all spinner output, e.g. when running non-interactively
+   */
+  constructor(private silent: boolean = false) {}
+
   start(message: string, suffix: string = "") {
     if (this.spinner) this.spinner.stop();
-    const options = { text: message, discardStdin: false, suffixText: suffix };
+    const options = { text: message, discardStdin: false, suffixText: suffix, isSilent: this.silent };
     this.spinner = ora(options).start();
   }
 
@@ -42,6 +47,23 @@ export class OraManager {
     }
   }
 
+  /**
+   * Print a warning line and keep the spinner running
+   */
+  warn(message: string) {
+    if (this.silent) {
+      return;
+    }
+
+    if (this.spinner) {
+      const { text, prefixText, suffixText } = this.spinner;
+      this.spinner.warn(message);
+      this.spinner = ora({ text, prefixText, suffixText, discardStdin: false }).start();
+    } else {
+      console.warn(chalk.yellow(`⚠ ${message}`));
+    }
+  }
+
   fail(message?: string) {
     if (this.spinner) {
       this.spinner.fail(message);